@@ -1,25 +1,71 @@
 import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  TooManyRequestsError,
+} from "../src/utils/errors";
+import { HttpResponse } from "../src/utils/response";
+
+/**
+ * Ubah error Prisma yang umum menjadi AppError dengan status HTTP yang sesuai
+ */
+const fromPrismaError = (err: Prisma.PrismaClientKnownRequestError): AppError | null => {
+  switch (err.code) {
+    case "P2002":
+      return new ConflictError("error.resource_exists", { fields: err.meta?.target });
+    case "P2025":
+      return new NotFoundError("error.resource_not_found");
+    case "P2003":
+      return new ConflictError("error.related_constraint");
+    case "P2023":
+      return new BadRequestError("error.invalid_identifier");
+    default:
+      return null;
+  }
+};
+
+const toAppError = (err: any): AppError | null => {
+  if (err instanceof AppError) return err;
+  if (err instanceof Prisma.PrismaClientKnownRequestError) return fromPrismaError(err);
+  // Body JSON tidak valid dari express.json()
+  if (err?.type === "entity.parse.failed") {
+    return new AppError(400, ErrorCode.INVALID_JSON, "error.invalid_json");
+  }
+  return null;
+};
 
 /**
  * Global error handler middleware
- * Menangani semua error agar response tetap konsisten
+ * Menangani semua error agar response tetap konsisten. Detail error internal
+ * hanya dicatat di log (bersama request id), tidak dikirim ke client.
  */
 export const errorHandler = (
   err: any,
   req: Request,
   res: Response,
-  next: NextFunction
+  _next: NextFunction
 ) => {
-  console.error("❌ ERROR:", err);
+  const appError = toAppError(err);
+
+  if (!appError || appError.status >= 500) {
+    console.error(`❌ ERROR [${req.id}] ${req.method} ${req.originalUrl}:`, err);
+  }
 
-  // Tentukan status code (default 500)
-  const status = err.status || 500;
-  const message =
-    err.message || "Internal Server Error";
+  if (appError instanceof TooManyRequestsError) {
+    res.setHeader("Retry-After", String(appError.retryAfter));
+  }
 
   // Kembalikan response JSON seragam
-  res.status(status).json({
-    success: false,
-    message,
-  });
+  HttpResponse.error(
+    res,
+    appError || new AppError(500, ErrorCode.INTERNAL_ERROR, "error.internal"),
+    {
+      ...(!appError && process.env.NODE_ENV === "development" && { error: err?.message }),
+      request_id: req.id,
+    }
+  );
 };
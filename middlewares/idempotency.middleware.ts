@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, BadRequestError, ErrorCode } from "../src/utils/errors";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  hashRequest,
+  releaseIdempotencyKey,
+} from "../src/services/idempotency.service";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Dukungan header Idempotency-Key untuk POST. Pasang setelah authMiddleware
+ * supaya key dipisah per user.
+ * - request pertama diproses, response-nya disimpan
+ * - retry dengan key & body yang sama mendapat response yang sama
+ * - key yang sama dengan body/endpoint berbeda ditolak 422
+ * - retry saat request pertama masih berjalan ditolak 409
+ * Response 5xx tidak disimpan supaya request bisa dicoba lagi.
+ */
+export const idempotent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get("idempotency-key");
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    if (key.trim() === "" || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestError({
+        key: "idempotency.invalid_key",
+        params: { max: MAX_KEY_LENGTH },
+      });
+    }
+
+    const scope = req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+    const requestHash = hashRequest(req.method, req.originalUrl, req.body);
+    const { record, created } = await claimIdempotencyKey(scope, key, requestHash);
+
+    if (!created) {
+      if (record.request_hash !== requestHash) {
+        throw new AppError(422, ErrorCode.IDEMPOTENCY_KEY_MISMATCH, "idempotency.key_mismatch");
+      }
+      if (record.status === "in_progress") {
+        throw new AppError(409, ErrorCode.IDEMPOTENCY_IN_PROGRESS, "idempotency.in_progress");
+      }
+
+      res.setHeader("Idempotency-Replayed", "true");
+      res.status(record.response_status ?? 200).json(record.response_body);
+      return;
+    }
+
+    // Tangkap body response untuk disimpan setelah response terkirim
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    let finished = false;
+    res.on("finish", () => {
+      finished = true;
+      const save =
+        res.statusCode >= 500
+          ? releaseIdempotencyKey(record.id)
+          : completeIdempotencyKey(record.id, res.statusCode, responseBody);
+      save.catch((error) => console.error(`❌ Idempotency [${req.id}]:`, error));
+    });
+    res.on("close", () => {
+      if (!finished) {
+        releaseIdempotencyKey(record.id).catch((error) =>
+          console.error(`❌ Idempotency [${req.id}]:`, error)
+        );
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
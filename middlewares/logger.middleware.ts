@@ -7,7 +7,7 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
   // Event listener to log after response sent
   res.on("finish", () => {
     const duration = Date.now() - start;
-    const logMessage = `[${new Date().toLocaleString()}] ${req.method} ${
+    const logMessage = `[${new Date().toLocaleString()}] [${req.id}] ${req.method} ${
       req.originalUrl
     } ${res.statusCode} - ${duration}ms`;
 
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+    }
+  }
+}
+
+// Correlation id per request: pakai X-Request-Id dari client/proxy kalau ada,
+// kalau tidak buat baru. Dikirim balik di header response & dicatat di log.
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get("x-request-id");
+  req.id = incoming && incoming.length <= 128 ? incoming : crypto.randomUUID();
+  res.setHeader("X-Request-Id", req.id);
+  next();
+};
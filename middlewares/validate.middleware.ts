@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from "express";
+import { z, ZodIssue, ZodTypeAny } from "zod";
+import { FieldError, ValidationError } from "../src/utils/errors";
+import { isMessageKey, MessageInput, MessageKey } from "../src/i18n";
+
+/**
+ * Schema validasi per route. Setiap bagian (params, query, body) opsional.
+ */
+export interface RequestSchema {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+type Infer<T> = T extends ZodTypeAny ? z.infer<T> : unknown;
+
+/**
+ * Request yang params & body-nya sudah divalidasi oleh validate(schema)
+ */
+export type ValidatedRequest<S extends RequestSchema> = Request<
+  S["params"] extends ZodTypeAny ? z.infer<S["params"]> : Record<string, string>,
+  unknown,
+  Infer<S["body"]>
+>;
+
+// Kode error yang stabil untuk client, tidak bergantung pada kode internal zod
+const issueCode = (issue: ZodIssue): string => {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined" ? "required" : "invalid_type";
+    case "invalid_string":
+      return issue.validation === "uuid" ? "invalid_uuid" : "invalid_format";
+    case "invalid_enum_value":
+    case "invalid_literal":
+      return "invalid_value";
+    case "unrecognized_keys":
+      return "unknown_field";
+    case "too_small":
+      return "too_small";
+    case "too_big":
+      return "too_big";
+    case "not_multiple_of":
+      return "invalid_value";
+    case "custom":
+      return (issue.params?.code as string | undefined) || "invalid_value";
+    default:
+      return "invalid";
+  }
+};
+
+// Pesan per field dari katalog i18n. too_small/too_big dibedakan per tipe
+// (panjang string, jumlah item array, atau nilai angka)
+const issueMessage = (issue: ZodIssue, code: string): MessageInput => {
+  switch (issue.code) {
+    case "unrecognized_keys":
+      return { key: "validation.unknown_field", params: { fields: issue.keys.join(", ") } };
+    case "too_small": {
+      const key: MessageKey =
+        issue.type === "string" ? "validation.too_short"
+        : issue.type === "array" ? "validation.too_few"
+        : "validation.too_small";
+      return { key, params: { minimum: Number(issue.minimum) } };
+    }
+    case "too_big": {
+      const key: MessageKey =
+        issue.type === "string" ? "validation.too_long"
+        : issue.type === "array" ? "validation.too_many"
+        : "validation.too_big";
+      return { key, params: { maximum: Number(issue.maximum) } };
+    }
+  }
+
+  const key = `validation.${code}`;
+  return isMessageKey(key) ? key : "validation.invalid";
+};
+
+/**
+ * Middleware validasi deklaratif. Data hasil parse (sudah di-trim / dikonversi)
+ * menggantikan req.params, req.query dan req.body. Kalau ada field yang gagal,
+ * semua error dikembalikan sekaligus lewat ValidationError (status 422).
+ */
+export const validate = (schema: RequestSchema) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+
+    for (const location of ["params", "query", "body"] as const) {
+      const part = schema[location];
+      if (!part) continue;
+
+      const result = part.safeParse(req[location] ?? {});
+      if (result.success) {
+        req[location] = result.data;
+        continue;
+      }
+
+      for (const issue of result.error.issues) {
+        const code = issueCode(issue);
+        errors.push({
+          field: [location, ...issue.path].join("."),
+          code,
+          message: issueMessage(issue, code),
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      next(new ValidationError(errors));
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Tipe query milik Express (ParsedQs) tidak bisa dipersempit lewat generic
+ * tanpa bentrok dengan middleware lain, jadi query hasil validate() dibaca
+ * lewat helper ini.
+ */
+export const validatedQuery = <S extends RequestSchema>(
+  req: Request<any, any, any, any>,
+  _schema: S
+): Infer<S["query"]> => req.query as Infer<S["query"]>;
@@ -0,0 +1,36 @@
+-- Backfill snapshot harga, judul dan genre di order_items untuk order lama.
+-- Jalankan SEBELUM `npm run prisma:push`, karena kolom baru wajib diisi:
+--   npm run prisma:backfill-order-items
+-- Aman dijalankan ulang; baris yang sudah terisi tidak diubah.
+
+BEGIN;
+
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "unit_price" INTEGER;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "book_title" TEXT;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "genre_name" TEXT;
+
+-- Order dengan satu item: harga satuan saat pembelian bisa dihitung dari totalPrice
+UPDATE "order_items" oi
+SET "unit_price" = o."totalPrice" / oi."quantity"
+FROM "orders" o
+WHERE oi."order_id" = o."id"
+  AND oi."unit_price" IS NULL
+  AND o."totalPrice" IS NOT NULL
+  AND o."totalPrice" % oi."quantity" = 0
+  AND (SELECT COUNT(*) FROM "order_items" x WHERE x."order_id" = o."id") = 1;
+
+-- Sisanya memakai data buku saat ini (harga historisnya tidak pernah disimpan)
+UPDATE "order_items" oi
+SET "unit_price" = COALESCE(oi."unit_price", b."price"),
+    "book_title" = COALESCE(oi."book_title", b."title"),
+    "genre_name" = COALESCE(oi."genre_name", g."name")
+FROM "books" b
+JOIN "genres" g ON g."id" = b."genre_id"
+WHERE oi."book_id" = b."id"
+  AND (oi."unit_price" IS NULL OR oi."book_title" IS NULL OR oi."genre_name" IS NULL);
+
+ALTER TABLE "order_items" ALTER COLUMN "unit_price" SET NOT NULL;
+ALTER TABLE "order_items" ALTER COLUMN "book_title" SET NOT NULL;
+ALTER TABLE "order_items" ALTER COLUMN "genre_name" SET NOT NULL;
+
+COMMIT;
@@ -0,0 +1,29 @@
+-- Backfill status untuk order lama yang dibuat sebelum ada kolom status.
+-- `prisma db push` mengisi semua order lama dengan default 'pending', padahal
+-- order lama sudah selesai. Jalankan SETELAH `npm run prisma:push`:
+--   npm run prisma:backfill-order-status
+-- Order lama dikenali dari tidak adanya riwayat status (order baru selalu
+-- mencatat riwayat awal). Aman dijalankan ulang.
+
+BEGIN;
+
+CREATE TEMP TABLE "legacy_orders" ON COMMIT DROP AS
+SELECT o."id"
+FROM "orders" o
+WHERE NOT EXISTS (
+  SELECT 1 FROM "order_status_histories" h WHERE h."order_id" = o."id"
+);
+
+UPDATE "orders" o
+SET "status" = 'delivered',
+    "expires_at" = NULL
+FROM "legacy_orders" l
+WHERE o."id" = l."id";
+
+-- Riwayat awal memakai waktu order dibuat, tanpa actor
+INSERT INTO "order_status_histories" ("id", "order_id", "from_status", "to_status", "note", "created_at")
+SELECT gen_random_uuid(), o."id", NULL, 'delivered', 'Backfill order lama', o."created_at"
+FROM "orders" o
+JOIN "legacy_orders" l ON l."id" = o."id";
+
+COMMIT;
@@ -0,0 +1,129 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { currentUser } from "./auth.middleware";
+import { ValidatedRequest } from "../../middlewares/validate.middleware";
+import {
+  addressIdSchema,
+  createAddressSchema,
+  updateAddressSchema,
+} from "../validations/address.validation";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import { NotFoundError } from "../utils/errors";
+
+const addressSelect = {
+  id: true,
+  label: true,
+  recipient_name: true,
+  phone: true,
+  line1: true,
+  line2: true,
+  city: true,
+  province: true,
+  postal_code: true,
+  country: true,
+  is_default: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.AddressSelect;
+
+// Alamat milik user lain diperlakukan seperti tidak ada
+const findOwnAddress = async (user_id: string, address_id: string) => {
+  const address = await prisma.address.findFirst({
+    where: { id: address_id, user_id, deleted_at: null },
+  });
+  if (!address) {
+    throw new NotFoundError("address.not_found");
+  }
+  return address;
+};
+
+// Hanya satu alamat default per user
+const clearDefault = (tx: Prisma.TransactionClient, user_id: string) =>
+  tx.address.updateMany({
+    where: { user_id, is_default: true },
+    data: { is_default: false },
+  });
+
+export const getAddresses = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const addresses = await prisma.address.findMany({
+    where: { user_id: authUser.id, deleted_at: null },
+    select: addressSelect,
+    orderBy: [{ is_default: "desc" }, { created_at: "asc" }],
+  });
+
+  HttpResponse.ok(res, "address.list_fetched", addresses);
+});
+
+export const createAddress = asyncHandler(async (
+  req: ValidatedRequest<typeof createAddressSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+  const { is_default, ...data } = req.body;
+
+  const address = await prisma.$transaction(async (tx) => {
+    // Alamat pertama otomatis menjadi default
+    const count = await tx.address.count({
+      where: { user_id: authUser.id, deleted_at: null },
+    });
+    const makeDefault = is_default ?? count === 0;
+
+    if (makeDefault) {
+      await clearDefault(tx, authUser.id);
+    }
+
+    return tx.address.create({
+      data: { ...data, user_id: authUser.id, is_default: makeDefault },
+      select: addressSelect,
+    });
+  });
+
+  HttpResponse.created(res, "address.created", address);
+});
+
+export const updateAddress = asyncHandler(async (
+  req: ValidatedRequest<typeof updateAddressSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+  const { address_id } = req.params;
+  const data = req.body;
+
+  await findOwnAddress(authUser.id, address_id);
+
+  const address = await prisma.$transaction(async (tx) => {
+    if (data.is_default) {
+      await clearDefault(tx, authUser.id);
+    }
+
+    return tx.address.update({
+      where: { id: address_id },
+      data,
+      select: addressSelect,
+    });
+  });
+
+  HttpResponse.ok(res, "address.updated", address);
+});
+
+// Soft delete: order lama tetap menyimpan snapshot alamatnya sendiri
+export const deleteAddress = asyncHandler(async (
+  req: ValidatedRequest<typeof addressIdSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+  const { address_id } = req.params;
+
+  await findOwnAddress(authUser.id, address_id);
+
+  await prisma.address.update({
+    where: { id: address_id },
+    data: { deleted_at: new Date(), is_default: false },
+  });
+
+  HttpResponse.ok(res, "address.deleted");
+});
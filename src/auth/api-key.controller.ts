@@ -0,0 +1,103 @@
+import { Request, Response } from "express";
+import prisma from "../config/database";
+import { hashToken } from "./session.service";
+import { generateApiKey, isPermission } from "./api-key.service";
+import { hasPermission } from "./permissions";
+import { currentUser } from "./auth.middleware";
+import { ValidatedRequest } from "../../middlewares/validate.middleware";
+import { apiKeyIdSchema, createApiKeySchema } from "../validations/auth.validation";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expires_at: true,
+  last_used_at: true,
+  revoked_at: true,
+  created_at: true,
+};
+
+export const getApiKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const apiKeys = await prisma.apiKey.findMany({
+    where: { user_id: authUser.id },
+    select: apiKeySelect,
+    orderBy: { created_at: "desc" },
+  });
+
+  HttpResponse.ok(res, "api_key.list_fetched", apiKeys);
+});
+
+export const createApiKey = asyncHandler(async (
+  req: ValidatedRequest<typeof createApiKeySchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const { name, scopes, expires_in_days } = req.body;
+
+  // Scope harus permission yang dikenal dan dimiliki oleh role user sendiri
+  const role = authUser.role;
+  const invalidScopes = scopes.filter(
+    (scope) => !isPermission(scope) || !hasPermission(role, scope)
+  );
+  if (invalidScopes.length > 0) {
+    throw new ValidationError([
+      {
+        field: "body.scopes",
+        code: "invalid_scopes",
+        message: { key: "api_key.invalid_scopes", params: { scopes: invalidScopes.join(", ") } },
+      },
+    ]);
+  }
+
+  const expiresAt = expires_in_days
+    ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000)
+    : null;
+
+  const { key, prefix } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      user_id: authUser.id,
+      name,
+      prefix,
+      key_hash: hashToken(key),
+      scopes: Array.from(new Set<string>(scopes)),
+      expires_at: expiresAt,
+    },
+    select: apiKeySelect,
+  });
+
+  // Key lengkap hanya dikembalikan sekali di sini
+  HttpResponse.created(res, "api_key.created", { ...apiKey, key });
+});
+
+export const revokeApiKey = asyncHandler(async (
+  req: ValidatedRequest<typeof apiKeyIdSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const { key_id } = req.params;
+
+  const apiKey = await prisma.apiKey.findFirst({
+    where: { id: key_id, user_id: authUser.id, revoked_at: null },
+  });
+
+  if (!apiKey) {
+    throw new NotFoundError("api_key.not_found");
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { revoked_at: new Date() },
+  });
+
+  HttpResponse.ok(res, "api_key.revoked");
+});
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { hashToken } from './session.service';
+import { PERMISSIONS, Permission } from './permissions';
+
+const KEY_PREFIX = 'pk';
+
+export const isPermission = (scope: string): scope is Permission =>
+  Object.prototype.hasOwnProperty.call(PERMISSIONS, scope);
+
+// Format key: pk_<prefix>_<secret>. Prefix disimpan apa adanya supaya user
+// bisa mengenali key-nya di daftar tanpa melihat key lengkap.
+export const generateApiKey = (): { key: string; prefix: string } => {
+  const prefix = crypto.randomBytes(4).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return { key: `${KEY_PREFIX}_${prefix}_${secret}`, prefix };
+};
+
+// Mengembalikan key beserta data user terbaru, atau null kalau key tidak valid,
+// sudah dicabut/kadaluarsa, atau akun pemiliknya tidak aktif
+export const findActiveApiKey = async (key: string) => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { key_hash: hashToken(key) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          role: true,
+          locale: true,
+          disabled_at: true,
+          deleted_at: true
+        }
+      }
+    }
+  });
+
+  if (
+    !apiKey ||
+    apiKey.revoked_at ||
+    (apiKey.expires_at && apiKey.expires_at <= new Date()) ||
+    apiKey.user.disabled_at ||
+    apiKey.user.deleted_at
+  ) {
+    return null;
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { last_used_at: new Date() }
+  });
+
+  return apiKey;
+};
@@ -1,216 +1,314 @@
 import { Request, Response } from "express";
+import { currentUser } from "./auth.middleware";
+import prisma from "../config/database";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+} from "./session.service";
+import { issueUserToken, consumeUserToken } from "./user-token.service";
+import { sendVerificationEmail, sendPasswordResetEmail } from "./auth.mail";
+import {
+  emailKey,
+  ipKey,
+  recordLoginSuccess,
+  reserveLoginAttempt,
+} from "./login-throttle.service";
+import { ValidatedRequest, validatedQuery } from "../../middlewares/validate.middleware";
+import {
+  forgotPasswordSchema,
+  loginSchema,
+  refreshSchema,
+  registerSchema,
+  resetPasswordSchema,
+  sessionIdSchema,
+  verifyEmailBodySchema,
+  verifyEmailQuerySchema,
+} from "../validations/auth.validation";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../utils/errors";
 
-declare global {
-  namespace Express {
-    interface Request {
-      user?: {
-        id: string;
-        email: string;
-        username?: string;
-      };
-    }
-  }
-}
+export const register = asyncHandler(async (
+  req: ValidatedRequest<typeof registerSchema>,
+  res: Response
+): Promise<void> => {
+  const { username, email, password } = req.body;
 
-import { PrismaClient } from "@prisma/client";
-import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
+  // Cek email sudah terdaftar
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    throw new ConflictError("auth.email_registered");
+  }
 
-const prisma = new PrismaClient();
+  // Hash password
+  const hashed = await bcrypt.hash(password, 10);
 
-// ✅ FIXED: Email regex tanpa escape backslash
-const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  // Buat user baru
+  const user = await prisma.user.create({
+    data: { 
+      username: username || null, 
+      email, 
+      password: hashed 
+    },
+  });
 
-export const register = async (req: Request, res: Response): Promise<void> => {
+  // Kirim email verifikasi; gagal kirim tidak membatalkan registrasi
   try {
-    const { username, email, password } = req.body;
-
-    // Validasi required fields
-    if (!email || !password) {
-      res.status(400).json({ 
-        success: false, 
-        message: "Email and password are required" 
-      });
-      return;
-    }
+    const token = await issueUserToken(user.id, "email_verification");
+    await sendVerificationEmail(user.email, token);
+  } catch (mailErr) {
+    console.error("Send verification email error:", mailErr);
+  }
 
-    // ✅ Validasi email format (sekarang works!)
-    if (!emailRegex.test(email)) {
-      res.status(400).json({ 
-        success: false, 
-        message: "Invalid email format" 
-      });
-      return;
-    }
+  HttpResponse.created(res, "auth.registered", { 
+    id: user.id, 
+    email: user.email, 
+    username: user.username,
+    role: user.role,
+    created_at: user.created_at 
+  });
+});
 
-    // Validasi password length
-    if (password.length < 8) {
-      res.status(400).json({
-        success: false,
-        message: "Password must be at least 8 characters long",
-      });
-      return;
-    }
+export const login = asyncHandler(async (
+  req: ValidatedRequest<typeof loginSchema>,
+  res: Response
+): Promise<void> => {
+  const { email, password } = req.body;
 
-    // Cek email sudah terdaftar
-    const existing = await prisma.user.findUnique({ where: { email } });
-    if (existing) {
-      res.status(409).json({ 
-        success: false, 
-        message: "Email already registered" 
-      });
-      return;
-    }
+  // Cek lockout per email & per IP. Percobaan dicatat sebagai gagal sebelum
+  // password dicek (dibatalkan kalau berhasil), berdasarkan email yang dikirim,
+  // jadi response-nya sama untuk email terdaftar maupun tidak
+  const attemptKeys = [emailKey(email), ipKey(req.ip || "unknown")];
+  const retryAfter = await reserveLoginAttempt(attemptKeys);
+  if (retryAfter > 0) {
+    throw new TooManyRequestsError(retryAfter, "auth.too_many_login_attempts");
+  }
 
-    // Hash password
-    const hashed = await bcrypt.hash(password, 10);
-
-    // Buat user baru
-    const user = await prisma.user.create({
-      data: { 
-        username: username || null, 
-        email, 
-        password: hashed 
-      },
-    });
-
-    res.status(201).json({
-      success: true,
-      message: "User registered successfully",
-      data: { 
-        id: user.id, 
-        email: user.email, 
-        username: user.username,
-        created_at: user.created_at 
-      },
-    });
-  } catch (err) {
-    console.error("Register error:", err);
-    res.status(500).json({ 
-      success: false, 
-      message: "Internal server error" 
-    });
+  // Cari user by email
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) {
+    throw new UnauthorizedError("auth.invalid_credentials");
   }
-};
 
-export const login = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { email, password } = req.body;
-
-    // Validasi required fields
-    if (!email || !password) {
-      res.status(400).json({ 
-        success: false, 
-        message: "Email and password are required" 
-      });
-      return;
-    }
+  // Validasi password
+  const valid = await bcrypt.compare(password, user.password);
+  if (!valid) {
+    throw new UnauthorizedError("auth.invalid_credentials");
+  }
 
-    // Cari user by email
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
-      res.status(401).json({ 
-        success: false, 
-        message: "Invalid credentials" 
-      });
-      return;
-    }
+  await recordLoginSuccess(attemptKeys[0], attemptKeys[1]);
 
-    // Validasi password
-    const valid = await bcrypt.compare(password, user.password);
-    if (!valid) {
-      res.status(401).json({ 
-        success: false, 
-        message: "Invalid credentials" 
-      });
-      return;
-    }
+  // Akun yang dinonaktifkan admin tidak boleh login
+  if (user.disabled_at) {
+    throw new ForbiddenError("auth.account_disabled");
+  }
+
+  // Cek JWT secret
+  if (!process.env.JWT_SECRET) {
+    throw new Error("JWT secret not configured");
+  }
+
+  // Buat session baru + access token pendek + refresh token
+  const tokens = await createSession(user, {
+    user_agent: req.get("user-agent"),
+    ip_address: req.ip,
+  });
 
-    // Cek JWT secret
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      res.status(500).json({ 
-        success: false, 
-        message: "JWT secret not configured" 
-      });
-      return;
+  HttpResponse.ok(res, "auth.login_success", { 
+    ...tokens,
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role
     }
+  });
+});
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        id: user.id,  // ✅ IMPORTANT: gunakan 'id' bukan 'userId'
-        email: user.email,
-        username: user.username 
-      }, 
-      secret, 
-      { 
-        expiresIn: process.env.JWT_EXPIRES_IN || "7d"
-      } as jwt.SignOptions
-    );
-
-    res.status(200).json({
-      success: true,
-      message: "Login successful",
-      data: { 
-        access_token: token,
-        user: {
-          id: user.id,
-          email: user.email,
-          username: user.username
-        }
-      },
-    });
-  } catch (err) {
-    console.error("Login error:", err);
-    res.status(500).json({ 
-      success: false, 
-      message: "Internal server error" 
-    });
+export const getMe = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
+
+  // Ambil data user dari database
+  const user = await prisma.user.findUnique({
+    where: { id: authUser.id },
+    select: { 
+      id: true, 
+      username: true, 
+      email: true,
+      role: true,
+      locale: true,
+      email_verified_at: true,
+      created_at: true,
+      updated_at: true
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError("user.not_found");
   }
-};
 
-export const getMe = async (req: Request, res: Response): Promise<void> => {
-  try {
-    // Cek apakah user sudah terautentikasi
-    if (!req.user) {
-      res.status(401).json({ 
-        success: false, 
-        message: "Unauthorized" 
-      });
-      return;
-    }
+  HttpResponse.ok(res, "auth.profile_fetched", user);
+});
 
-    // Ambil data user dari database
-    const user = await prisma.user.findUnique({
-      where: { id: req.user.id },
-      select: { 
-        id: true, 
-        username: true, 
-        email: true,
-        created_at: true,
-        updated_at: true
-      },
-    });
-
-    if (!user) {
-      res.status(404).json({ 
-        success: false, 
-        message: "User not found" 
-      });
-      return;
-    }
+export const refresh = asyncHandler(async (
+  req: ValidatedRequest<typeof refreshSchema>,
+  res: Response
+): Promise<void> => {
+  const { refresh_token } = req.body;
+
+  const tokens = await rotateRefreshToken(refresh_token);
+
+  HttpResponse.ok(res, "auth.token_refreshed", tokens);
+});
+
+export const logout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
+
+  if (authUser.sid) {
+    await revokeSession(authUser.sid);
+  }
+
+  HttpResponse.ok(res, "auth.logged_out");
+});
+
+export const logoutAll = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
 
-    res.status(200).json({
-      success: true,
-      message: "Profile fetched successfully",
-      data: user,
-    });
-  } catch (err) {
-    console.error("GetMe error:", err);
-    res.status(500).json({ 
-      success: false, 
-      message: "Internal server error" 
-    });
+  const revoked = await revokeAllSessions(authUser.id);
+
+  HttpResponse.ok(res, "auth.logged_out_all", { revoked_sessions: revoked });
+});
+
+export const getSessions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const sessions = await prisma.session.findMany({
+    where: {
+      user_id: authUser.id,
+      revoked_at: null,
+      expires_at: { gt: new Date() },
+    },
+    orderBy: { last_used_at: "desc" },
+  });
+
+  HttpResponse.ok(res, "session.list_fetched", sessions.map((session) => ({
+    id: session.id,
+    user_agent: session.user_agent,
+    ip_address: session.ip_address,
+    created_at: session.created_at,
+    last_used_at: session.last_used_at,
+    expires_at: session.expires_at,
+    current: session.id === authUser.sid,
+  })));
+});
+
+export const deleteSession = asyncHandler(async (
+  req: ValidatedRequest<typeof sessionIdSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const { session_id } = req.params;
+
+  // Hanya boleh mencabut session milik sendiri
+  const session = await prisma.session.findFirst({
+    where: { id: session_id, user_id: authUser.id, revoked_at: null },
+  });
+
+  if (!session) {
+    throw new NotFoundError("session.not_found");
+  }
+
+  await revokeSession(session.id);
+
+  HttpResponse.ok(res, "session.revoked");
+});
+
+export const verifyEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // Bisa lewat body (POST) atau query string dari link email (GET),
+  // keduanya sudah divalidasi oleh schema route masing-masing
+  const token: string =
+    req.method === "GET"
+      ? validatedQuery(req, verifyEmailQuerySchema).token
+      : (req.body as z.infer<typeof verifyEmailBodySchema.body>).token;
+
+  const userId = await consumeUserToken(token, "email_verification");
+  if (!userId) {
+    throw new BadRequestError("auth.invalid_or_expired_token");
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { email_verified_at: new Date() },
+  });
+
+  HttpResponse.ok(res, "auth.email_verified");
+});
+
+export const resendVerification = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const user = await prisma.user.findUnique({ where: { id: authUser.id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  if (user.email_verified_at) {
+    throw new BadRequestError("auth.email_already_verified");
+  }
+
+  const token = await issueUserToken(user.id, "email_verification");
+  await sendVerificationEmail(user.email, token);
+
+  HttpResponse.ok(res, "auth.verification_sent");
+});
+
+export const forgotPassword = asyncHandler(async (
+  req: ValidatedRequest<typeof forgotPasswordSchema>,
+  res: Response
+): Promise<void> => {
+  const { email } = req.body;
+
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (user) {
+    const token = await issueUserToken(user.id, "password_reset");
+    await sendPasswordResetEmail(user.email, token);
+  }
+
+  // Response selalu sama supaya tidak bocor email mana yang terdaftar
+  HttpResponse.ok(res, "auth.password_reset_sent");
+});
+
+export const resetPassword = asyncHandler(async (
+  req: ValidatedRequest<typeof resetPasswordSchema>,
+  res: Response
+): Promise<void> => {
+  const { token, password } = req.body;
+
+  const userId = await consumeUserToken(token, "password_reset");
+  if (!userId) {
+    throw new BadRequestError("auth.invalid_or_expired_token");
   }
-};
\ No newline at end of file
+
+  const hashed = await bcrypt.hash(password, 10);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: hashed },
+  });
+
+  // Password diganti: semua session lama dicabut
+  await revokeAllSessions(userId);
+
+  HttpResponse.ok(res, "auth.password_reset");
+});
@@ -0,0 +1,30 @@
+import { getMailer } from '../mail/mailer';
+
+const appUrl = (): string => process.env.APP_URL || `http://localhost:${process.env.PORT || 8080}`;
+
+export const sendVerificationEmail = async (email: string, token: string): Promise<void> => {
+  await getMailer().send({
+    to: email,
+    subject: 'Verify your email - IT Literature Shop',
+    text: [
+      'Please verify your email address by opening the link below:',
+      `${appUrl()}/auth/verify-email?token=${token}`,
+      '',
+      `Verification token: ${token}`
+    ].join('\n')
+  });
+};
+
+export const sendPasswordResetEmail = async (email: string, token: string): Promise<void> => {
+  await getMailer().send({
+    to: email,
+    subject: 'Reset your password - IT Literature Shop',
+    text: [
+      'We received a request to reset your password.',
+      `${appUrl()}/auth/reset-password?token=${token}`,
+      '',
+      `Reset token: ${token}`,
+      'If you did not request this, you can ignore this email.'
+    ].join('\n')
+  });
+};
@@ -1,61 +1,121 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt, { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
+import { Role } from '@prisma/client';
+import { getActiveSession } from './session.service';
+import { findActiveApiKey, isPermission } from './api-key.service';
+import { Permission } from './permissions';
+import { UnauthorizedError } from '../utils/errors';
+import { isLocale, Locale } from '../i18n';
 
-interface JWTPayload {
+export interface JWTPayload {
   id: string;
   email: string;
   username?: string; // Keep this as optional
+  role: Role;
+  sid: string; // id session, dipakai untuk revoke token
+}
+
+// User yang sudah terautentikasi, baik lewat JWT (punya sid)
+// maupun lewat X-API-Key (punya api_key beserta scope-nya)
+export interface AuthUser {
+  id: string;
+  email: string;
+  username?: string;
+  role: Role;
+  locale?: Locale; // preferensi bahasa user, dipakai sebelum Accept-Language
+  sid?: string;
+  api_key?: {
+    id: string;
+    scopes: Permission[];
+  };
 }
 
 // Extend Express Request type
 declare global {
   namespace Express {
     interface Request {
-      user?: JWTPayload;
+      user?: AuthUser;
     }
   }
 }
 
-export const authMiddleware = (
+export const authMiddleware = async (
   req: Request,
-  res: Response,
+  _res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
+    const apiKeyHeader = req.get('x-api-key');
+
+    if (apiKeyHeader) {
+      const apiKey = await findActiveApiKey(apiKeyHeader);
+      if (!apiKey) {
+        throw new UnauthorizedError('api_key.invalid');
+      }
+
+      req.user = {
+        id: apiKey.user.id,
+        email: apiKey.user.email,
+        username: apiKey.user.username || undefined,
+        role: apiKey.user.role,
+        locale: isLocale(apiKey.user.locale) ? apiKey.user.locale : undefined,
+        api_key: {
+          id: apiKey.id,
+          scopes: apiKey.scopes.filter(isPermission)
+        }
+      };
+
+      next();
+      return;
+    }
+
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.status(401).json({
-        success: false,
-        message: 'Authorization header with Bearer token required'
-      });
-      return;
+      throw new UnauthorizedError('auth.header_required');
     }
 
     const token = authHeader.split(' ')[1];
     const jwtSecret = process.env.JWT_SECRET;
 
     if (!jwtSecret) {
-      res.status(500).json({
-        success: false,
-        message: 'JWT secret not configured'
-      });
-      return;
+      throw new Error('JWT secret not configured');
     }
 
     const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
-    req.user = decoded;
+
+    // Token tetap ditolak kalau session-nya sudah di-logout / dicabut
+    // atau akunnya dinonaktifkan admin
+    const session = decoded.sid ? await getActiveSession(decoded.sid) : null;
+    if (!session) {
+      throw new UnauthorizedError('session.inactive');
+    }
+
+    // Role & locale diambil dari database supaya perubahan langsung berlaku
+    req.user = {
+      ...decoded,
+      role: session.user.role,
+      locale: isLocale(session.user.locale) ? session.user.locale : undefined
+    };
 
     next();
   } catch (error) {
     if (error instanceof TokenExpiredError) {
-      res.status(401).json({ success: false, message: 'Token expired' });
+      next(new UnauthorizedError('auth.token_expired'));
       return;
     }
     if (error instanceof JsonWebTokenError) {
-      res.status(401).json({ success: false, message: 'Invalid token' });
+      next(new UnauthorizedError('auth.invalid_token'));
       return;
     }
-    res.status(500).json({ success: false, message: 'Authentication failed' });
+    next(error);
+  }
+};
+
+// Ambil user yang sedang login di dalam handler yang dipasang setelah authMiddleware
+export const currentUser = (req: Request): AuthUser => {
+  if (!req.user) {
+    throw new UnauthorizedError();
   }
+  return req.user;
 };
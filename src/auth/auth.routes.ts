@@ -1,14 +1,81 @@
 import { Router } from 'express';
-import { register, login, getMe } from './auth.controller';
+import {
+  register,
+  login,
+  getMe,
+  refresh,
+  logout,
+  logoutAll,
+  getSessions,
+  deleteSession,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword
+} from './auth.controller';
+import { updateMe, changePassword, deleteMe } from './profile.controller';
+import { getLockouts, clearLockout } from './lockout.controller';
+import { getApiKeys, createApiKey, revokeApiKey } from './api-key.controller';
+import { getAddresses, createAddress, updateAddress, deleteAddress } from './address.controller';
 import { authMiddleware } from './auth.middleware';
+import { requirePermission, requireSession } from './authorize.middleware';
+import { validate } from '../../middlewares/validate.middleware';
+import { idempotent } from '../../middlewares/idempotency.middleware';
+import {
+  addressIdSchema,
+  createAddressSchema,
+  updateAddressSchema,
+} from '../validations/address.validation';
+import {
+  apiKeyIdSchema,
+  changePasswordSchema,
+  createApiKeySchema,
+  deleteMeSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  refreshSchema,
+  registerSchema,
+  resetPasswordSchema,
+  sessionIdSchema,
+  updateMeSchema,
+  verifyEmailBodySchema,
+  verifyEmailQuerySchema,
+} from '../validations/auth.validation';
 
 const router = Router();
 
+// Endpoint akun hanya untuk login biasa (bukan API key)
+const sessionAuth = [authMiddleware, requireSession];
+
 // Public routes
-router.post('/register', register);
-router.post('/login', login);
+router.post('/register', validate(registerSchema), register);
+router.post('/login', validate(loginSchema), login);
+router.post('/refresh', validate(refreshSchema), refresh);
+router.post('/forgot-password', validate(forgotPasswordSchema), forgotPassword);
+router.post('/reset-password', validate(resetPasswordSchema), resetPassword);
+router.get('/verify-email', validate(verifyEmailQuerySchema), verifyEmail);
+router.post('/verify-email', validate(verifyEmailBodySchema), verifyEmail);
 
 // Protected routes
-router.get('/me', authMiddleware, getMe);
+router.get('/me', sessionAuth, getMe);
+router.patch('/me', sessionAuth, validate(updateMeSchema), updateMe);
+router.delete('/me', sessionAuth, validate(deleteMeSchema), deleteMe);
+router.get('/me/addresses', sessionAuth, getAddresses);
+router.post('/me/addresses', sessionAuth, idempotent, validate(createAddressSchema), createAddress);
+router.patch('/me/addresses/:address_id', sessionAuth, validate(updateAddressSchema), updateAddress);
+router.delete('/me/addresses/:address_id', sessionAuth, validate(addressIdSchema), deleteAddress);
+router.post('/change-password', sessionAuth, validate(changePasswordSchema), changePassword);
+router.post('/resend-verification', sessionAuth, resendVerification);
+router.post('/logout', sessionAuth, logout);
+router.post('/logout-all', sessionAuth, logoutAll);
+router.get('/sessions', sessionAuth, getSessions);
+router.delete('/sessions/:session_id', sessionAuth, validate(sessionIdSchema), deleteSession);
+router.get('/api-keys', sessionAuth, getApiKeys);
+router.post('/api-keys', sessionAuth, validate(createApiKeySchema), createApiKey);
+router.delete('/api-keys/:key_id', sessionAuth, validate(apiKeyIdSchema), revokeApiKey);
+
+// Admin routes
+router.get('/lockouts', sessionAuth, requirePermission('auth:manage_lockouts'), getLockouts);
+router.delete('/lockouts/:key', sessionAuth, requirePermission('auth:manage_lockouts'), clearLockout);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from 'express';
+import { Role } from '@prisma/client';
+import prisma from '../config/database';
+import { Permission, hasPermission } from './permissions';
+import { AuthUser } from './auth.middleware';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+
+// Request lewat API key juga dibatasi oleh scope key tersebut
+export const userCan = (user: AuthUser, permission: Permission): boolean =>
+  hasPermission(user.role, permission) &&
+  (!user.api_key || user.api_key.scopes.includes(permission));
+
+// Harus dipasang setelah authMiddleware karena membaca req.user
+export const requireRole = (...roles: Role[]) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError());
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      next(new ForbiddenError());
+      return;
+    }
+
+    next();
+  };
+};
+
+// Semua permission yang disebutkan wajib dimiliki oleh role user
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError());
+      return;
+    }
+
+    const user = req.user;
+    if (!permissions.every((permission) => userCan(user, permission))) {
+      next(new ForbiddenError());
+      return;
+    }
+
+    next();
+  };
+};
+
+// Endpoint akun (profil, session, API key) hanya boleh diakses lewat login
+// biasa, bukan lewat API key
+export const requireSession = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    next(new UnauthorizedError());
+    return;
+  }
+
+  if (!req.user.sid) {
+    next(new ForbiddenError('session.api_key_not_allowed'));
+    return;
+  }
+
+  next();
+};
+
+// Aktif hanya kalau REQUIRE_EMAIL_VERIFICATION=true
+export const requireVerifiedEmail = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (process.env.REQUIRE_EMAIL_VERIFICATION !== 'true') {
+      next();
+      return;
+    }
+
+    if (!req.user) {
+      next(new UnauthorizedError());
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { email_verified_at: true }
+    });
+
+    if (!user?.email_verified_at) {
+      next(new ForbiddenError('auth.email_not_verified'));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
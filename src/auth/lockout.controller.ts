@@ -0,0 +1,29 @@
+import { Request, Response } from "express";
+import { clearLoginAttempts, listLoginAttempts } from "./login-throttle.service";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import { NotFoundError } from "../utils/errors";
+
+export const getLockouts = asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  const records = await listLoginAttempts();
+
+  HttpResponse.ok(res, "lockout.list_fetched", records.map((record) => ({
+    key: record.key,
+    failures: record.failures,
+    last_failed_at: record.last_failed_at,
+    locked: !!record.locked_until,
+    locked_until: record.locked_until,
+  })), { count: records.length });
+});
+
+// key berbentuk "email:<alamat>" atau "ip:<alamat>"
+export const clearLockout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { key } = req.params;
+
+  const cleared = await clearLoginAttempts(key);
+  if (!cleared) {
+    throw new NotFoundError("lockout.not_found");
+  }
+
+  HttpResponse.ok(res, "lockout.cleared");
+});
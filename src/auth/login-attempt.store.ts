@@ -0,0 +1,53 @@
+export interface AttemptRecord {
+  key: string;
+  failures: number;
+  last_failed_at: Date;
+  locked_until: Date | null;
+}
+
+// Penyimpanan counter gagal login. Default-nya in-memory (cukup untuk satu node),
+// bisa diganti dengan implementasi lain (mis. Redis) lewat setLoginAttemptStore.
+export interface LoginAttemptStore {
+  // Baca-ubah-tulis satu record secara atomik (implementasi lain harus memakai
+  // transaksi/script). Callback mengembalikan null untuk menghapus record.
+  update(
+    key: string,
+    change: (existing: AttemptRecord | null) => AttemptRecord | null
+  ): Promise<AttemptRecord | null>;
+  delete(key: string): Promise<boolean>;
+  list(): Promise<AttemptRecord[]>;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly records = new Map<string, AttemptRecord>();
+
+  // Tanpa await di antara baca dan tulis, jadi atomik di dalam satu proses
+  async update(
+    key: string,
+    change: (existing: AttemptRecord | null) => AttemptRecord | null
+  ): Promise<AttemptRecord | null> {
+    const next = change(this.records.get(key) || null);
+    if (next) {
+      this.records.set(key, next);
+    } else {
+      this.records.delete(key);
+    }
+    return next;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async list(): Promise<AttemptRecord[]> {
+    return Array.from(this.records.values());
+  }
+}
+
+let store: LoginAttemptStore = new MemoryLoginAttemptStore();
+
+export const getLoginAttemptStore = (): LoginAttemptStore => store;
+
+export const setLoginAttemptStore = (custom: LoginAttemptStore): void => {
+  store = custom;
+};
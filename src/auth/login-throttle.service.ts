@@ -0,0 +1,101 @@
+import { AttemptRecord, getLoginAttemptStore } from './login-attempt.store';
+
+const MAX_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS) || 5;
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+const BACKOFF_BASE_MS = Number(process.env.LOGIN_BACKOFF_BASE_MS) || 1000;
+// Counter di-reset kalau tidak ada kegagalan lagi selama window ini
+const ATTEMPT_WINDOW_MINUTES = Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES) || 15;
+
+export const emailKey = (email: string): string => `email:${email.trim().toLowerCase()}`;
+export const ipKey = (ip: string): string => `ip:${ip}`;
+
+const isStale = (record: AttemptRecord, now: Date): boolean =>
+  !record.locked_until &&
+  now.getTime() - record.last_failed_at.getTime() > ATTEMPT_WINDOW_MINUTES * 60 * 1000;
+
+// Waktu paling cepat untuk percobaan berikutnya:
+// lockout penuh setelah MAX_ATTEMPTS, sebelum itu exponential backoff
+const nextAllowedAt = (record: AttemptRecord): Date | null => {
+  if (record.locked_until) {
+    return record.locked_until;
+  }
+  if (record.failures < 2) {
+    return null;
+  }
+  const delay = BACKOFF_BASE_MS * 2 ** (record.failures - 2);
+  return new Date(record.last_failed_at.getTime() + delay);
+};
+
+const isExpired = (record: AttemptRecord, now: Date): boolean =>
+  isStale(record, now) || (!!record.locked_until && record.locked_until <= now);
+
+const lockedUntil = (failures: number, now: Date): Date | null =>
+  failures >= MAX_ATTEMPTS ? new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000) : null;
+
+/**
+ * Cek lockout sekaligus mencatat percobaan ini sebagai gagal, atomik per key,
+ * SEBELUM password dicek. Request paralel tidak bisa sama-sama lolos dengan
+ * counter lama. Mengembalikan jumlah detik yang harus ditunggu (percobaan
+ * tidak dicatat), atau 0 kalau boleh mencoba.
+ */
+export const reserveLoginAttempt = async (keys: string[]): Promise<number> => {
+  const store = getLoginAttemptStore();
+  const now = new Date();
+  const reserved: string[] = [];
+  let waitMs = 0;
+
+  for (const key of keys) {
+    await store.update(key, (existing) => {
+      const record = existing && !isExpired(existing, now) ? existing : null;
+
+      const allowedAt = record && nextAllowedAt(record);
+      if (allowedAt && allowedAt > now) {
+        waitMs = Math.max(waitMs, allowedAt.getTime() - now.getTime());
+        return record;
+      }
+
+      reserved.push(key);
+      const failures = (record?.failures ?? 0) + 1;
+      return { key, failures, last_failed_at: now, locked_until: lockedUntil(failures, now) };
+    });
+  }
+
+  if (waitMs > 0) {
+    await releaseLoginAttempt(reserved);
+    return Math.ceil(waitMs / 1000);
+  }
+  return 0;
+};
+
+// Batalkan pencatatan dari reserveLoginAttempt (satu percobaan per key)
+const releaseLoginAttempt = async (keys: string[]): Promise<void> => {
+  const store = getLoginAttemptStore();
+
+  for (const key of keys) {
+    await store.update(key, (record) => {
+      if (!record || record.failures <= 1) return null;
+      const failures = record.failures - 1;
+      return { ...record, failures, locked_until: failures >= MAX_ATTEMPTS ? record.locked_until : null };
+    });
+  }
+};
+
+/**
+ * Login berhasil: counter email di-reset. Counter IP hanya dikurangi untuk
+ * percobaan ini, supaya login ke akun sendiri tidak menghapus jejak tebakan
+ * password ke akun lain dari IP yang sama.
+ */
+export const recordLoginSuccess = async (email_key: string, ip_key: string): Promise<void> => {
+  await getLoginAttemptStore().delete(email_key);
+  await releaseLoginAttempt([ip_key]);
+};
+
+export const listLoginAttempts = async (): Promise<AttemptRecord[]> => {
+  const now = new Date();
+  const records = await getLoginAttemptStore().list();
+
+  return records.filter((record) => !isExpired(record, now));
+};
+
+export const clearLoginAttempts = async (key: string): Promise<boolean> =>
+  getLoginAttemptStore().delete(key);
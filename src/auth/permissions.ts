@@ -0,0 +1,29 @@
+import { Role } from '@prisma/client';
+
+// Daftar permission dan role yang boleh memakainya.
+// Route cukup mendeklarasikan permission, bukan daftar role satu per satu.
+export const PERMISSIONS = {
+  'auth:manage_lockouts': [Role.admin],
+  'user:manage': [Role.admin],
+  'book:write': [Role.staff, Role.admin],
+  'genre:write': [Role.staff, Role.admin],
+  'coupon:manage': [Role.admin],
+  'cart:manage': [Role.customer, Role.staff, Role.admin],
+  'transaction:create': [Role.customer, Role.staff, Role.admin],
+  'transaction:read': [Role.customer, Role.staff, Role.admin],
+  'transaction:read_all': [Role.staff, Role.admin],
+  'transaction:create_for_others': [Role.staff, Role.admin],
+  'transaction:statistics': [Role.staff, Role.admin],
+  'report:read': [Role.staff, Role.admin],
+  'transaction:update_status': [Role.staff, Role.admin],
+  'transaction:refund': [Role.staff, Role.admin],
+  'shipment:manage': [Role.staff, Role.admin],
+  'payment:capture': [Role.staff, Role.admin],
+  // Menentukan hasil pembayaran mock gateway (development)
+  'payment:simulate': [Role.admin],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  (PERMISSIONS[permission] as Role[]).includes(role);
@@ -0,0 +1,159 @@
+import { Response } from "express";
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import prisma from "../config/database";
+import { revokeAllSessions } from "./session.service";
+import { issueUserToken } from "./user-token.service";
+import { sendVerificationEmail } from "./auth.mail";
+import { ValidatedRequest } from "../../middlewares/validate.middleware";
+import { changePasswordSchema, deleteMeSchema, updateMeSchema } from "../validations/auth.validation";
+import { currentUser } from "./auth.middleware";
+import { asyncHandler } from "../utils/async-handler";
+import { isLocale } from "../i18n";
+import { HttpResponse } from "../utils/response";
+import { ConflictError, NotFoundError, UnauthorizedError } from "../utils/errors";
+
+export const updateMe = asyncHandler(async (
+  req: ValidatedRequest<typeof updateMeSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const { username, email, locale } = req.body;
+
+  const user = await prisma.user.findUnique({ where: { id: authUser.id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  const data: {
+    username?: string | null;
+    email?: string;
+    email_verified_at?: null;
+    locale?: string | null;
+  } = {};
+
+  if (username !== undefined) {
+    data.username = username || null;
+  }
+
+  if (locale !== undefined) {
+    data.locale = locale;
+  }
+
+  const emailChanged = email !== undefined && email !== user.email;
+  if (emailChanged) {
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new ConflictError("auth.email_registered");
+    }
+
+    // Email baru wajib diverifikasi ulang
+    data.email = email;
+    data.email_verified_at = null;
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data,
+    select: {
+      id: true,
+      username: true,
+      email: true,
+      role: true,
+      locale: true,
+      email_verified_at: true,
+      created_at: true,
+      updated_at: true
+    },
+  });
+
+  // Response ini sudah memakai bahasa yang baru dipilih
+  authUser.locale = isLocale(updated.locale) ? updated.locale : undefined;
+
+  if (emailChanged) {
+    const token = await issueUserToken(updated.id, "email_verification");
+    await sendVerificationEmail(updated.email, token);
+  }
+
+  HttpResponse.ok(
+    res,
+    emailChanged ? "profile.updated_verify_email" : "profile.updated",
+    updated
+  );
+});
+
+export const changePassword = asyncHandler(async (
+  req: ValidatedRequest<typeof changePasswordSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const { current_password, new_password } = req.body;
+
+  const user = await prisma.user.findUnique({ where: { id: authUser.id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  const valid = await bcrypt.compare(current_password, user.password);
+  if (!valid) {
+    throw new UnauthorizedError("profile.current_password_incorrect");
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { password: await bcrypt.hash(new_password, 10) },
+  });
+
+  // Session yang sedang dipakai tetap hidup, session lain dicabut
+  const revoked = await revokeAllSessions(user.id, authUser.sid);
+
+  HttpResponse.ok(res, "profile.password_changed", { revoked_sessions: revoked });
+});
+
+// Akun tidak dihapus fisik supaya riwayat Order tetap utuh untuk pembukuan;
+// data pribadinya saja yang dianonimkan
+export const deleteMe = asyncHandler(async (
+  req: ValidatedRequest<typeof deleteMeSchema>,
+  res: Response
+): Promise<void> => {
+  const authUser = currentUser(req);
+
+  const { password } = req.body;
+
+  const user = await prisma.user.findUnique({ where: { id: authUser.id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  const valid = await bcrypt.compare(password, user.password);
+  if (!valid) {
+    throw new UnauthorizedError("auth.invalid_credentials");
+  }
+
+  const randomPassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        username: null,
+        email: `deleted-${user.id}@deleted.invalid`,
+        password: randomPassword,
+        email_verified_at: null,
+        deleted_at: new Date(),
+      },
+    }),
+    prisma.userToken.deleteMany({ where: { user_id: user.id } }),
+    // Data pribadi ikut dihapus; snapshot alamat di order (OrderAddress) tetap
+    // disimpan untuk riwayat transaksi, address_id-nya menjadi null
+    prisma.address.deleteMany({ where: { user_id: user.id } }),
+    prisma.cartItem.deleteMany({ where: { user_id: user.id } }),
+    prisma.apiKey.deleteMany({ where: { user_id: user.id } }),
+  ]);
+
+  await revokeAllSessions(user.id);
+
+  HttpResponse.ok(res, "profile.deleted");
+});
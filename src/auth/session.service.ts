@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User } from '@prisma/client';
+import prisma from '../config/database';
+import { UnauthorizedError } from '../utils/errors';
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS) || 30;
+
+export class SessionError extends UnauthorizedError {}
+
+export interface IssuedTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_in: string;
+}
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const refreshExpiry = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const signAccessToken = (
+  user: Pick<User, 'id' | 'email' | 'username' | 'role'>,
+  session_id: string
+): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT secret not configured');
+  }
+
+  return jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      sid: session_id
+    },
+    secret,
+    { expiresIn: process.env.JWT_EXPIRES_IN || '15m' } as jwt.SignOptions
+  );
+};
+
+const createRefreshToken = async (session_id: string): Promise<string> => {
+  const token = crypto.randomBytes(48).toString('base64url');
+
+  await prisma.refreshToken.create({
+    data: {
+      session_id,
+      token_hash: hashToken(token),
+      expires_at: refreshExpiry()
+    }
+  });
+
+  return token;
+};
+
+// Dipanggil saat login: buat session baru beserta pasangan token pertamanya
+export const createSession = async (
+  user: Pick<User, 'id' | 'email' | 'username' | 'role'>,
+  meta: { user_agent?: string; ip_address?: string }
+): Promise<IssuedTokens> => {
+  const session = await prisma.session.create({
+    data: {
+      user_id: user.id,
+      user_agent: meta.user_agent || null,
+      ip_address: meta.ip_address || null,
+      expires_at: refreshExpiry()
+    }
+  });
+
+  return {
+    access_token: signAccessToken(user, session.id),
+    refresh_token: await createRefreshToken(session.id),
+    expires_in: process.env.JWT_EXPIRES_IN || '15m'
+  };
+};
+
+// Tukar refresh token lama dengan pasangan token baru.
+// Refresh token yang dipakai dua kali dianggap bocor: seluruh session dicabut.
+export const rotateRefreshToken = async (token: string): Promise<IssuedTokens> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(token) },
+    include: { session: { include: { user: true } } }
+  });
+
+  if (!stored) {
+    throw new SessionError('session.invalid_refresh_token');
+  }
+
+  const { session } = stored;
+
+  if (stored.used_at) {
+    await revokeSession(session.id);
+    throw new SessionError('session.refresh_token_reused');
+  }
+
+  const now = new Date();
+  if (
+    session.revoked_at ||
+    session.expires_at < now ||
+    stored.expires_at < now ||
+    session.user.disabled_at
+  ) {
+    throw new SessionError('session.revoked_or_expired');
+  }
+
+  // updateMany dengan syarat used_at null supaya dua request paralel
+  // dengan token yang sama tidak sama-sama lolos
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, used_at: null },
+    data: { used_at: now }
+  });
+
+  if (claimed.count === 0) {
+    await revokeSession(session.id);
+    throw new SessionError('session.refresh_token_reused');
+  }
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { last_used_at: now }
+  });
+
+  return {
+    access_token: signAccessToken(session.user, session.id),
+    refresh_token: await createRefreshToken(session.id),
+    expires_in: process.env.JWT_EXPIRES_IN || '15m'
+  };
+};
+
+export const revokeSession = async (session_id: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: session_id, revoked_at: null },
+    data: { revoked_at: new Date() }
+  });
+};
+
+export const revokeAllSessions = async (
+  user_id: string,
+  except_session_id?: string
+): Promise<number> => {
+  const result = await prisma.session.updateMany({
+    where: {
+      user_id,
+      revoked_at: null,
+      ...(except_session_id && { NOT: { id: except_session_id } })
+    },
+    data: { revoked_at: new Date() }
+  });
+
+  return result.count;
+};
+
+// Mengembalikan session beserta data user terbaru, atau null kalau session
+// sudah dicabut/kadaluarsa atau akunnya dinonaktifkan
+export const getActiveSession = async (session_id: string) => {
+  const session = await prisma.session.findUnique({
+    where: { id: session_id },
+    include: { user: { select: { role: true, locale: true, disabled_at: true } } }
+  });
+
+  if (
+    !session ||
+    session.revoked_at ||
+    session.expires_at <= new Date() ||
+    session.user.disabled_at
+  ) {
+    return null;
+  }
+
+  return session;
+};
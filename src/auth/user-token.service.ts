@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { UserTokenType } from '@prisma/client';
+import prisma from '../config/database';
+import { hashToken } from './session.service';
+
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  email_verification: Number(process.env.EMAIL_VERIFICATION_EXPIRES_IN_MINUTES) || 24 * 60,
+  password_reset: Number(process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES) || 30,
+};
+
+// Buat token baru dan matikan token lama dengan tipe yang sama
+export const issueUserToken = async (
+  user_id: string,
+  type: UserTokenType
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { user_id, type, used_at: null },
+      data: { used_at: now }
+    }),
+    prisma.userToken.create({
+      data: {
+        user_id,
+        type,
+        token_hash: hashToken(token),
+        expires_at: new Date(now.getTime() + TOKEN_TTL_MINUTES[type] * 60 * 1000)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Mengembalikan user_id pemilik token, atau null kalau token tidak valid,
+// sudah kadaluarsa, atau sudah pernah dipakai
+export const consumeUserToken = async (
+  token: string,
+  type: UserTokenType
+): Promise<string | null> => {
+  const now = new Date();
+
+  const stored = await prisma.userToken.findUnique({
+    where: { token_hash: hashToken(token) }
+  });
+
+  if (!stored || stored.type !== type || stored.used_at || stored.expires_at < now) {
+    return null;
+  }
+
+  const claimed = await prisma.userToken.updateMany({
+    where: { id: stored.id, used_at: null },
+    data: { used_at: now }
+  });
+
+  return claimed.count === 1 ? stored.user_id : null;
+};
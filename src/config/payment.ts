@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Konfigurasi payment gateway dari environment, dibaca sekali saat start.
+// Tanpa PAYMENT_GATEWAY pembayaran online nonaktif (order dibayar manual oleh
+// staff). Kalau gateway dipilih, PAYMENT_WEBHOOK_SECRET wajib ada; tidak ada
+// secret default yang bisa ditebak. Mock gateway ditolak di production.
+
+const paymentEnv = z
+  .object({
+    PAYMENT_GATEWAY: z.enum(['mock']).optional(),
+    PAYMENT_WEBHOOK_SECRET: z.string().min(16).optional(),
+    PAYMENT_WEBHOOK_URL: z.string().url().optional(),
+  })
+  .superRefine((env, ctx) => {
+    if (env.PAYMENT_GATEWAY === 'mock' && process.env.NODE_ENV === 'production') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['PAYMENT_GATEWAY'],
+        message: 'Mock gateway is not allowed when NODE_ENV=production',
+      });
+    }
+    if (env.PAYMENT_GATEWAY && !env.PAYMENT_WEBHOOK_SECRET) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['PAYMENT_WEBHOOK_SECRET'],
+        message: `Required when PAYMENT_GATEWAY=${env.PAYMENT_GATEWAY}`,
+      });
+    }
+  });
+
+const env = paymentEnv.parse({
+  PAYMENT_GATEWAY: process.env.PAYMENT_GATEWAY || undefined,
+  PAYMENT_WEBHOOK_SECRET: process.env.PAYMENT_WEBHOOK_SECRET || undefined,
+  PAYMENT_WEBHOOK_URL: process.env.PAYMENT_WEBHOOK_URL || undefined,
+});
+
+export const paymentConfig = {
+  gateway:
+    env.PAYMENT_GATEWAY && env.PAYMENT_WEBHOOK_SECRET
+      ? {
+          driver: env.PAYMENT_GATEWAY,
+          webhook_secret: env.PAYMENT_WEBHOOK_SECRET,
+          webhook_url: env.PAYMENT_WEBHOOK_URL ?? null,
+        }
+      : null,
+};
+
+export type PaymentConfig = typeof paymentConfig;
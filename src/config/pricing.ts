@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+// Konfigurasi pajak & ongkos kirim dari environment, dibaca sekali saat start.
+// Nilai yang tidak valid membuat server gagal start, bukan diam-diam salah hitung.
+
+const number = (fallback: number) =>
+  z.preprocess((value) => (value === undefined || value === '' ? fallback : Number(value)), z.number().min(0));
+
+const weightZones = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() !== '' ? JSON.parse(value) : undefined),
+  z
+    .array(z.object({ max_grams: z.number().int().min(1), fee: z.number().int().min(0) }))
+    .min(1)
+    .default([
+      { max_grams: 1000, fee: 10000 },
+      { max_grams: 3000, fee: 18000 },
+      { max_grams: 5000, fee: 25000 },
+    ])
+);
+
+const pricingEnv = z.object({
+  // PPN 11%
+  TAX_RATE_PERCENT: number(11).pipe(z.number().max(100)),
+  // per_item: pajak dihitung & dibulatkan per baris, per_order: sekali dari total
+  TAX_MODE: z.enum(['per_item', 'per_order']).default('per_order'),
+  // true: harga buku sudah termasuk pajak
+  TAX_INCLUSIVE: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+
+  // item_count: SHIPPING_BASE_FEE + SHIPPING_PER_ITEM_FEE x jumlah buku
+  // weight: tarif zona berat SHIPPING_WEIGHT_ZONES, lebih berat dari zona terakhir
+  // ditambah SHIPPING_PER_EXTRA_KG_FEE per kg (dibulatkan ke atas)
+  SHIPPING_MODE: z.enum(['item_count', 'weight']).default('item_count'),
+  SHIPPING_BASE_FEE: number(10000),
+  SHIPPING_PER_ITEM_FEE: number(0),
+  SHIPPING_WEIGHT_ZONES: weightZones,
+  SHIPPING_PER_EXTRA_KG_FEE: number(5000),
+  // Gratis ongkir kalau total belanja setelah diskon mencapai nilai ini (0 = tidak ada)
+  SHIPPING_FREE_THRESHOLD: number(0),
+});
+
+const env = pricingEnv.parse(process.env);
+
+export const pricingConfig = {
+  tax: {
+    rate: env.TAX_RATE_PERCENT,
+    mode: env.TAX_MODE,
+    inclusive: env.TAX_INCLUSIVE,
+  },
+  shipping: {
+    mode: env.SHIPPING_MODE,
+    base_fee: env.SHIPPING_BASE_FEE,
+    per_item_fee: env.SHIPPING_PER_ITEM_FEE,
+    weight_zones: [...env.SHIPPING_WEIGHT_ZONES].sort((a, b) => a.max_grams - b.max_grams),
+    per_extra_kg_fee: env.SHIPPING_PER_EXTRA_KG_FEE,
+    free_threshold: env.SHIPPING_FREE_THRESHOLD,
+  },
+};
+
+export type PricingConfig = typeof pricingConfig;
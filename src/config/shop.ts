@@ -0,0 +1,9 @@
+// Identitas toko yang dicetak di invoice
+export const shopConfig = {
+  name: process.env.SHOP_NAME || 'IT Literature Shop',
+  address: process.env.SHOP_ADDRESS || null,
+  email: process.env.SHOP_EMAIL || null,
+  phone: process.env.SHOP_PHONE || null,
+  // NPWP toko
+  tax_id: process.env.SHOP_TAX_ID || null,
+};
@@ -0,0 +1,37 @@
+import { Request, Response } from "express";
+import { validatedQuery } from "../../middlewares/validate.middleware";
+import {
+  bookAnalyticsSchema,
+  genreAnalyticsSchema,
+  salesAnalyticsSchema,
+} from "../validations/analytics.validation";
+import { bookBreakdown, genreBreakdown, salesSeries } from "../services/analytics.service";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+
+// ✅ PENJUALAN PER HARI/MINGGU/BULAN
+export const getSalesAnalytics = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { from, to, interval } = validatedQuery(req, salesAnalyticsSchema);
+
+  const sales = await salesSeries({ from, to }, interval);
+
+  HttpResponse.ok(res, "analytics.sales_fetched", sales);
+});
+
+// ✅ PERINGKAT GENRE BERDASARKAN PENDAPATAN
+export const getGenreAnalytics = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const query = validatedQuery(req, genreAnalyticsSchema);
+
+  const genres = await genreBreakdown(query);
+
+  HttpResponse.ok(res, "analytics.genres_fetched", genres);
+});
+
+// ✅ PERINGKAT BUKU BERDASARKAN PENDAPATAN
+export const getBookAnalytics = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const query = validatedQuery(req, bookAnalyticsSchema);
+
+  const books = await bookBreakdown(query);
+
+  HttpResponse.ok(res, "analytics.books_fetched", books);
+});
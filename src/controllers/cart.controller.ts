@@ -0,0 +1,234 @@
+import { Request, Response } from "express";
+import { Book, CartItem } from "@prisma/client";
+import prisma from "../config/database";
+import { currentUser } from "../auth/auth.middleware";
+import { ValidatedRequest } from "../../middlewares/validate.middleware";
+import {
+  addCartItemSchema,
+  cartItemParamsSchema,
+  checkoutCartSchema,
+  updateCartItemSchema,
+} from "../validations/cart.validation";
+import { createOrder, createdOrderResponse } from "../services/order.service";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse, localize } from "../utils/response";
+import { BadRequestError, NotFoundError, OutOfStockError } from "../utils/errors";
+import { MessageInput } from "../i18n";
+
+type CartItemWithBook = CartItem & { book: Book };
+
+// book_deleted & insufficient_stock menghalangi checkout, price_changed hanya info
+const BLOCKING_WARNINGS = ["book_deleted", "insufficient_stock"];
+
+// Cek harga & stok terbaru dari tabel Book setiap kali keranjang ditampilkan
+const cartWarnings = ({ book, quantity, unit_price }: CartItemWithBook) => {
+  const warnings: { code: string; message: MessageInput }[] = [];
+
+  if (book.deleted_at) {
+    warnings.push({
+      code: "book_deleted",
+      message: { key: "cart.warning_book_deleted", params: { title: book.title } },
+    });
+  } else if (book.stock_quantity < quantity) {
+    warnings.push({
+      code: "insufficient_stock",
+      message: {
+        key: "stock.insufficient",
+        params: { title: book.title, available: book.stock_quantity, requested: quantity },
+      },
+    });
+  }
+
+  if (book.price !== unit_price) {
+    warnings.push({
+      code: "price_changed",
+      message: {
+        key: "cart.warning_price_changed",
+        params: { title: book.title, previous: unit_price, current: book.price },
+      },
+    });
+  }
+
+  return warnings;
+};
+
+const loadCart = (user_id: string): Promise<CartItemWithBook[]> =>
+  prisma.cartItem.findMany({
+    where: { user_id },
+    include: { book: true },
+    orderBy: { created_at: "asc" },
+  });
+
+const cartResponse = (res: Response, items: CartItemWithBook[]) => {
+  const lines = items.map((item) => {
+    const warnings = cartWarnings(item);
+    return {
+      book: {
+        id: item.book.id,
+        title: item.book.title,
+        writer: item.book.writer,
+        price: item.book.price,
+        stock_quantity: item.book.stock_quantity,
+      },
+      quantity: item.quantity,
+      subtotal: item.book.price * item.quantity,
+      available: !warnings.some((warning) => BLOCKING_WARNINGS.includes(warning.code)),
+      warnings: warnings.map((warning) => ({
+        code: warning.code,
+        message: localize(res, warning.message),
+      })),
+    };
+  });
+
+  // Total hanya dari item yang masih bisa dibeli
+  const available = lines.filter((line) => line.available);
+
+  return {
+    items: lines,
+    total_quantity: available.reduce((sum, line) => sum + line.quantity, 0),
+    total_price: available.reduce((sum, line) => sum + line.subtotal, 0),
+    can_checkout: lines.length > 0 && available.length === lines.length,
+  };
+};
+
+// Stok dicek saat item ditambah/diubah; tetap dicek ulang saat checkout
+const assertStock = (book: Book, quantity: number): void => {
+  if (book.stock_quantity < quantity) {
+    throw new OutOfStockError([
+      {
+        book_id: book.id,
+        title: book.title,
+        requested: quantity,
+        available: book.stock_quantity,
+      },
+    ]);
+  }
+};
+
+// ✅ GET CART
+export const getCart = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const user = currentUser(req);
+
+  const items = await loadCart(user.id);
+
+  HttpResponse.ok(res, "cart.fetched", cartResponse(res, items));
+});
+
+// ✅ ADD ITEM (quantity ditambahkan kalau buku sudah ada di keranjang)
+export const addCartItem = asyncHandler(async (
+  req: ValidatedRequest<typeof addCartItemSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { book_id, quantity } = req.body;
+
+  const book = await prisma.book.findFirst({
+    where: { id: book_id, deleted_at: null },
+  });
+  if (!book) {
+    throw new NotFoundError("book.not_found");
+  }
+
+  const existing = await prisma.cartItem.findUnique({
+    where: { user_id_book_id: { user_id: user.id, book_id } },
+  });
+  const newQuantity = (existing?.quantity ?? 0) + quantity;
+  assertStock(book, newQuantity);
+
+  await prisma.cartItem.upsert({
+    where: { user_id_book_id: { user_id: user.id, book_id } },
+    create: { user_id: user.id, book_id, quantity, unit_price: book.price },
+    update: { quantity: newQuantity, unit_price: book.price },
+  });
+
+  HttpResponse.ok(res, "cart.item_added", cartResponse(res, await loadCart(user.id)));
+});
+
+// ✅ UPDATE QUANTITY
+export const updateCartItem = asyncHandler(async (
+  req: ValidatedRequest<typeof updateCartItemSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { book_id } = req.params;
+  const { quantity } = req.body;
+
+  const item = await prisma.cartItem.findUnique({
+    where: { user_id_book_id: { user_id: user.id, book_id } },
+    include: { book: true },
+  });
+  if (!item) {
+    throw new NotFoundError("cart.item_not_found");
+  }
+
+  // Buku yang sudah dihapus hanya bisa dikeluarkan dari keranjang
+  if (item.book.deleted_at) {
+    throw new NotFoundError("book.not_found");
+  }
+  assertStock(item.book, quantity);
+
+  await prisma.cartItem.update({
+    where: { id: item.id },
+    data: { quantity, unit_price: item.book.price },
+  });
+
+  HttpResponse.ok(res, "cart.item_updated", cartResponse(res, await loadCart(user.id)));
+});
+
+// ✅ REMOVE ITEM
+export const removeCartItem = asyncHandler(async (
+  req: ValidatedRequest<typeof cartItemParamsSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { book_id } = req.params;
+
+  const { count } = await prisma.cartItem.deleteMany({
+    where: { user_id: user.id, book_id },
+  });
+  if (count === 0) {
+    throw new NotFoundError("cart.item_not_found");
+  }
+
+  HttpResponse.ok(res, "cart.item_removed", cartResponse(res, await loadCart(user.id)));
+});
+
+// ✅ CLEAR
+export const clearCart = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const user = currentUser(req);
+
+  await prisma.cartItem.deleteMany({ where: { user_id: user.id } });
+
+  HttpResponse.ok(res, "cart.cleared", cartResponse(res, []));
+});
+
+// ✅ CHECKOUT: aturan sama dengan POST /transactions, keranjang dikosongkan
+// di transaksi yang sama dengan pembuatan order
+export const checkoutCart = asyncHandler(async (
+  req: ValidatedRequest<typeof checkoutCartSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { coupon_code, address_id } = req.body;
+
+  const createdOrder = await prisma.$transaction(async (tx) => {
+    const items = await tx.cartItem.findMany({ where: { user_id: user.id } });
+    if (items.length === 0) {
+      throw new BadRequestError("cart.empty");
+    }
+
+    const order = await createOrder(tx, {
+      owner_id: user.id,
+      actor_id: user.id,
+      items: items.map(({ book_id, quantity }) => ({ book_id, quantity })),
+      coupon_code,
+      address_id,
+    });
+
+    await tx.cartItem.deleteMany({ where: { id: { in: items.map((item) => item.id) } } });
+
+    return order;
+  });
+
+  HttpResponse.created(res, "transaction.created", createdOrderResponse(createdOrder));
+});
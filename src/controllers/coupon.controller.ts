@@ -0,0 +1,249 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { ValidatedRequest, validatedQuery } from "../../middlewares/validate.middleware";
+import {
+  couponIdSchema,
+  couponReportSchema,
+  createCouponSchema,
+  getCouponsSchema,
+  updateCouponSchema,
+} from "../validations/coupon.validation";
+import { assertCouponRules } from "../services/coupon.service";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+const couponInclude = {
+  genre: { select: { id: true, name: true } },
+  book: { select: { id: true, title: true } },
+} satisfies Prisma.CouponInclude;
+
+const findCoupon = async (id: string) => {
+  const coupon = await prisma.coupon.findFirst({
+    where: { id, deleted_at: null },
+  });
+  if (!coupon) {
+    throw new NotFoundError("coupon.not_found");
+  }
+  return coupon;
+};
+
+// Kode kupon yang sudah dihapus tetap tidak bisa dipakai ulang (unik di tabel)
+const assertCodeAvailable = async (code: string, except_id?: string): Promise<void> => {
+  const existing = await prisma.coupon.findUnique({ where: { code } });
+  if (existing && existing.id !== except_id) {
+    throw new ConflictError("coupon.code_taken");
+  }
+};
+
+// Buku/genre yang jadi cakupan kupon harus masih ada
+const assertScopeExists = async (
+  genre_id: string | null | undefined,
+  book_id: string | null | undefined
+): Promise<void> => {
+  if (genre_id) {
+    const genre = await prisma.genre.findFirst({ where: { id: genre_id, deleted_at: null } });
+    if (!genre) {
+      throw new NotFoundError("genre.not_found");
+    }
+  }
+  if (book_id) {
+    const book = await prisma.book.findFirst({ where: { id: book_id, deleted_at: null } });
+    if (!book) {
+      throw new NotFoundError("book.not_found");
+    }
+  }
+};
+
+// ✅ CREATE
+export const createCoupon = asyncHandler(async (
+  req: ValidatedRequest<typeof createCouponSchema>,
+  res: Response
+): Promise<void> => {
+  const data = req.body;
+
+  assertCouponRules({
+    discount_type: data.discount_type,
+    discount_value: data.discount_value,
+    genre_id: data.genre_id ?? null,
+    book_id: data.book_id ?? null,
+    starts_at: data.starts_at ?? null,
+    ends_at: data.ends_at ?? null,
+  });
+  await assertCodeAvailable(data.code);
+  await assertScopeExists(data.genre_id, data.book_id);
+
+  const coupon = await prisma.coupon.create({
+    data,
+    include: couponInclude,
+  });
+
+  HttpResponse.created(res, "coupon.created", coupon);
+});
+
+// ✅ LIST + SEARCH
+export const getCoupons = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { search, page, limit } = validatedQuery(req, getCouponsSchema);
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.CouponWhereInput = {
+    deleted_at: null,
+    ...(search && { code: { contains: search, mode: "insensitive" } }),
+  };
+
+  const [coupons, total] = await Promise.all([
+    prisma.coupon.findMany({
+      where,
+      skip,
+      take: limit,
+      include: couponInclude,
+      orderBy: { created_at: "desc" },
+    }),
+    prisma.coupon.count({ where }),
+  ]);
+
+  HttpResponse.ok(res, "coupon.list_fetched", coupons, {
+    pagination: {
+      page,
+      limit,
+      total,
+      total_pages: Math.ceil(total / limit),
+    },
+  });
+});
+
+// ✅ DETAIL
+export const getCouponById = asyncHandler(async (
+  req: ValidatedRequest<typeof couponIdSchema>,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params;
+
+  const coupon = await prisma.coupon.findFirst({
+    where: { id, deleted_at: null },
+    include: couponInclude,
+  });
+  if (!coupon) {
+    throw new NotFoundError("coupon.not_found");
+  }
+
+  HttpResponse.ok(res, "coupon.detail_fetched", coupon);
+});
+
+// ✅ UPDATE
+export const updateCoupon = asyncHandler(async (
+  req: ValidatedRequest<typeof updateCouponSchema>,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params;
+  const data = req.body;
+
+  const coupon = await findCoupon(id);
+
+  // Aturan antar-field dicek terhadap hasil gabungan, bukan hanya field yang dikirim
+  assertCouponRules({
+    discount_type: data.discount_type ?? coupon.discount_type,
+    discount_value: data.discount_value ?? coupon.discount_value,
+    genre_id: data.genre_id !== undefined ? data.genre_id : coupon.genre_id,
+    book_id: data.book_id !== undefined ? data.book_id : coupon.book_id,
+    starts_at: data.starts_at !== undefined ? data.starts_at : coupon.starts_at,
+    ends_at: data.ends_at !== undefined ? data.ends_at : coupon.ends_at,
+  });
+  if (data.code && data.code !== coupon.code) {
+    await assertCodeAvailable(data.code, coupon.id);
+  }
+  await assertScopeExists(data.genre_id, data.book_id);
+
+  const updated = await prisma.coupon.update({
+    where: { id },
+    data,
+    include: couponInclude,
+  });
+
+  HttpResponse.ok(res, "coupon.updated", updated);
+});
+
+// ✅ DELETE (soft delete, riwayat pemakaian tetap tersimpan)
+export const deleteCoupon = asyncHandler(async (
+  req: ValidatedRequest<typeof couponIdSchema>,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params;
+
+  await findCoupon(id);
+
+  const deleted = await prisma.coupon.update({
+    where: { id },
+    data: { deleted_at: new Date() },
+  });
+
+  HttpResponse.ok(res, "coupon.deleted", {
+    id: deleted.id,
+    code: deleted.code,
+    deleted_at: deleted.deleted_at,
+  });
+});
+
+// ✅ REPORT: jumlah pemakaian per kupon (order yang dibatalkan tidak dihitung)
+export const getCouponReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { from, to } = validatedQuery(req, couponReportSchema);
+
+  const where: Prisma.CouponRedemptionWhereInput = {
+    cancelled_at: null,
+    ...((from || to) && {
+      created_at: {
+        ...(from && { gte: from }),
+        ...(to && { lte: to }),
+      },
+    }),
+  };
+
+  const [totals, perUser] = await Promise.all([
+    prisma.couponRedemption.groupBy({
+      by: ["coupon_id"],
+      where,
+      _count: { id: true },
+      _sum: { discount: true },
+    }),
+    prisma.couponRedemption.groupBy({
+      by: ["coupon_id", "user_id"],
+      where,
+    }),
+  ]);
+
+  // Kupon yang sudah dihapus tetap muncul kalau pernah dipakai di rentang ini
+  const coupons = await prisma.coupon.findMany({
+    where: {
+      OR: [{ deleted_at: null }, { id: { in: totals.map((row) => row.coupon_id) } }],
+    },
+    orderBy: { code: "asc" },
+  });
+
+  const report = coupons
+    .map((coupon) => {
+      const row = totals.find((total) => total.coupon_id === coupon.id);
+      return {
+        coupon: {
+          id: coupon.id,
+          code: coupon.code,
+          discount_type: coupon.discount_type,
+          discount_value: coupon.discount_value,
+          usage_limit: coupon.usage_limit,
+          redemption_count: coupon.redemption_count,
+          deleted_at: coupon.deleted_at,
+        },
+        redemptions: row?._count.id ?? 0,
+        unique_users: perUser.filter((entry) => entry.coupon_id === coupon.id).length,
+        total_discount: row?._sum.discount ?? 0,
+      };
+    })
+    .sort((a, b) => b.redemptions - a.redemptions);
+
+  HttpResponse.ok(res, "coupon.report_fetched", {
+    period: { from: from ?? null, to: to ?? null },
+    total_redemptions: report.reduce((sum, entry) => sum + entry.redemptions, 0),
+    total_discount: report.reduce((sum, entry) => sum + entry.total_discount, 0),
+    coupons: report,
+  });
+});
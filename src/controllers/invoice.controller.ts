@@ -0,0 +1,43 @@
+import { Response } from "express";
+import prisma from "../config/database";
+import { currentUser } from "../auth/auth.middleware";
+import { userCan } from "../auth/authorize.middleware";
+import { resolveLocale } from "../i18n";
+import { ValidatedRequest, validatedQuery } from "../../middlewares/validate.middleware";
+import { transactionInvoiceSchema } from "../validations/transaction.validation";
+import { invoiceInclude, issueInvoice } from "../services/invoice.service";
+import { buildInvoiceView } from "../invoices/invoice.view";
+import { renderInvoiceHtml } from "../invoices/invoice.html";
+import { renderInvoicePdf } from "../invoices/invoice.pdf";
+import { asyncHandler } from "../utils/async-handler";
+import { NotFoundError } from "../utils/errors";
+
+// ✅ INVOICE (HTML atau PDF), hanya pemilik order dan staff
+export const getTransactionInvoice = asyncHandler(async (
+  req: ValidatedRequest<typeof transactionInvoiceSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id } = req.params;
+  const { format } = validatedQuery(req, transactionInvoiceSchema);
+
+  const order = await prisma.order.findUnique({ where: { id }, include: invoiceInclude });
+  if (!order || (order.user_id !== user.id && !userCan(user, "transaction:read_all"))) {
+    throw new NotFoundError("transaction.not_found");
+  }
+
+  const invoice = await issueInvoice(order);
+  const view = buildInvoiceView(order, invoice, resolveLocale(req));
+  const filename = invoice.number.replace(/\//g, "-");
+
+  if (format === "pdf") {
+    res
+      .status(200)
+      .type("application/pdf")
+      .set("Content-Disposition", `inline; filename="${filename}.pdf"`)
+      .send(renderInvoicePdf(view));
+    return;
+  }
+
+  res.status(200).type("html").send(renderInvoiceHtml(view));
+});
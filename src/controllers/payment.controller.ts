@@ -0,0 +1,132 @@
+import { Response } from "express";
+import { Payment } from "@prisma/client";
+import prisma from "../config/database";
+import { AuthUser, currentUser } from "../auth/auth.middleware";
+import { userCan } from "../auth/authorize.middleware";
+import { ValidatedRequest } from "../../middlewares/validate.middleware";
+import {
+  capturePaymentSchema,
+  orderPaymentsSchema,
+  paymentWebhookSchema,
+  simulateMockPaymentSchema,
+} from "../validations/payment.validation";
+import {
+  capturePayment as captureOrderPayment,
+  createOrderPayment,
+  handlePaymentWebhook,
+} from "../services/payment.service";
+import { getPaymentGateway } from "../payments/gateway";
+import { MockPaymentGateway } from "../payments/mock.gateway";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import { NotFoundError } from "../utils/errors";
+
+const paymentResponse = (payment: Payment) => ({
+  id: payment.id,
+  transaction_id: payment.order_id,
+  provider: payment.provider,
+  provider_ref: payment.provider_ref,
+  amount: payment.amount,
+  currency: payment.currency,
+  status: payment.status,
+  refunded_amount: payment.refunded_amount,
+  failure_reason: payment.failure_reason,
+  captured_at: payment.captured_at,
+  created_at: payment.created_at,
+});
+
+// Sama seperti GET /transactions/:id: order orang lain dianggap tidak ada
+const findAccessibleOrder = async (user: AuthUser, order_id: string) => {
+  const order = await prisma.order.findUnique({ where: { id: order_id } });
+  if (!order || (order.user_id !== user.id && !userCan(user, "transaction:read_all"))) {
+    throw new NotFoundError("transaction.not_found");
+  }
+  return order;
+};
+
+// ✅ CREATE PAYMENT INTENT
+export const createPayment = asyncHandler(async (
+  req: ValidatedRequest<typeof orderPaymentsSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id } = req.params;
+
+  await findAccessibleOrder(user, id);
+
+  const { payment, next_action } = await createOrderPayment(id);
+
+  HttpResponse.created(res, "payment.created", {
+    ...paymentResponse(payment),
+    next_action,
+  });
+});
+
+// ✅ LIST PAYMENT PER ORDER
+export const getPayments = asyncHandler(async (
+  req: ValidatedRequest<typeof orderPaymentsSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id } = req.params;
+
+  await findAccessibleOrder(user, id);
+
+  const payments = await prisma.payment.findMany({
+    where: { order_id: id },
+    orderBy: { created_at: "asc" },
+  });
+
+  HttpResponse.ok(res, "payment.list_fetched", payments.map(paymentResponse));
+});
+
+// ✅ CAPTURE (payment authorized, oleh staff)
+export const capturePayment = asyncHandler(async (
+  req: ValidatedRequest<typeof capturePaymentSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id, payment_id } = req.params;
+
+  const payment = await captureOrderPayment(id, payment_id, user.id);
+
+  HttpResponse.ok(res, "payment.captured", paymentResponse(payment));
+});
+
+// ✅ WEBHOOK dari gateway (body mentah, tanpa login; keamanan lewat signature)
+export const paymentWebhook = asyncHandler(async (
+  req: ValidatedRequest<typeof paymentWebhookSchema>,
+  res: Response
+): Promise<void> => {
+  const { provider } = req.params;
+  const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+  const result = await handlePaymentWebhook(provider, rawBody, req.headers);
+
+  HttpResponse.ok(res, "payment.webhook_received", result);
+});
+
+// ✅ MOCK GATEWAY: picu hasil pembayaran secara lokal
+export const simulateMockPayment = asyncHandler(async (
+  req: ValidatedRequest<typeof simulateMockPaymentSchema>,
+  res: Response
+): Promise<void> => {
+  const { provider_ref } = req.params;
+  const { outcome, delay_ms } = req.body;
+
+  const gateway = getPaymentGateway();
+  if (!(gateway instanceof MockPaymentGateway)) {
+    throw new NotFoundError("payment.mock_disabled");
+  }
+
+  const payment = await prisma.payment.findUnique({
+    where: { provider_provider_ref: { provider: gateway.name, provider_ref } },
+  });
+  if (!payment) {
+    throw new NotFoundError("payment.not_found");
+  }
+
+  const events = gateway.simulate(provider_ref, outcome, delay_ms);
+
+  HttpResponse.ok(res, "payment.simulated", { provider_ref, outcome, events });
+});
@@ -0,0 +1,173 @@
+import { Request, Response } from "express";
+import { validatedQuery } from "../../middlewares/validate.middleware";
+import {
+  bestSellersReportSchema,
+  cohortRetentionReportSchema,
+  customerLifetimeValueReportSchema,
+  repeatCustomersReportSchema,
+  slowMoversReportSchema,
+} from "../validations/report.validation";
+import {
+  bestSellers,
+  cohortRetention,
+  customerLifetimeValue,
+  repeatCustomers,
+  slowMovers,
+} from "../services/report.service";
+import { CsvColumn, toCsv } from "../reports/csv";
+import { MessageKey } from "../i18n";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+
+interface ReportOutput<T> {
+  name: string;
+  message: MessageKey;
+  format: "json" | "csv";
+  data: unknown;
+  columns: CsvColumn<T>[];
+  rows: T[];
+}
+
+// JSON lewat HttpResponse, atau CSV sebagai file download (baris utama report)
+const sendReport = <T>(res: Response, { name, message, format, data, columns, rows }: ReportOutput<T>): void => {
+  if (format === "csv") {
+    const date = new Date().toISOString().slice(0, 10);
+    res
+      .status(200)
+      .type("text/csv; charset=utf-8")
+      .set("Content-Disposition", `attachment; filename="${name}-${date}.csv"`)
+      .send(toCsv(columns, rows));
+    return;
+  }
+
+  HttpResponse.ok(res, message, data);
+};
+
+// ✅ BUKU TERLARIS
+export const getBestSellersReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { format, ...query } = validatedQuery(req, bestSellersReportSchema);
+
+  const report = await bestSellers(query);
+
+  sendReport(res, {
+    name: `best-sellers-by-${report.by}`,
+    message: "report.best_sellers_fetched",
+    format,
+    data: report,
+    rows: report.books,
+    columns: [
+      { header: "rank", value: (row) => row.rank },
+      { header: "book_id", value: (row) => row.book_id },
+      { header: "title", value: (row) => row.title },
+      { header: "writer", value: (row) => row.writer },
+      { header: "genre", value: (row) => row.genre },
+      { header: "units_sold", value: (row) => row.units_sold },
+      { header: "revenue", value: (row) => row.revenue },
+      { header: "orders", value: (row) => row.orders },
+      { header: "stock_quantity", value: (row) => row.stock_quantity },
+      { header: "deleted_at", value: (row) => row.deleted_at },
+    ],
+  });
+});
+
+// ✅ BUKU YANG TIDAK LAKU
+export const getSlowMoversReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { format, ...query } = validatedQuery(req, slowMoversReportSchema);
+
+  const report = await slowMovers(query);
+
+  sendReport(res, {
+    name: `slow-movers-${report.days}d`,
+    message: "report.slow_movers_fetched",
+    format,
+    data: report,
+    rows: report.books,
+    columns: [
+      { header: "book_id", value: (row) => row.book_id },
+      { header: "title", value: (row) => row.title },
+      { header: "writer", value: (row) => row.writer },
+      { header: "genre", value: (row) => row.genre },
+      { header: "price", value: (row) => row.price },
+      { header: "stock_quantity", value: (row) => row.stock_quantity },
+      { header: "stock_value", value: (row) => row.stock_value },
+      { header: "last_sold_at", value: (row) => row.last_sold_at },
+      { header: "added_at", value: (row) => row.added_at },
+    ],
+  });
+});
+
+// ✅ CUSTOMER YANG BELANJA LAGI
+export const getRepeatCustomersReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { format, from, to } = validatedQuery(req, repeatCustomersReportSchema);
+
+  const report = await repeatCustomers({ from, to });
+
+  sendReport(res, {
+    name: "repeat-customers",
+    message: "report.repeat_customers_fetched",
+    format,
+    data: report,
+    rows: [report],
+    columns: [
+      { header: "from", value: (row) => row.period.from },
+      { header: "to", value: (row) => row.period.to },
+      { header: "customers", value: (row) => row.customers },
+      { header: "repeat_customers", value: (row) => row.repeat_customers },
+      { header: "repeat_rate", value: (row) => row.repeat_rate },
+      { header: "orders", value: (row) => row.orders },
+      { header: "repeat_orders", value: (row) => row.repeat_orders },
+      { header: "repeat_order_share", value: (row) => row.repeat_order_share },
+    ],
+  });
+});
+
+// ✅ CUSTOMER LIFETIME VALUE
+export const getCustomerLifetimeValueReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { format, ...query } = validatedQuery(req, customerLifetimeValueReportSchema);
+
+  const report = await customerLifetimeValue(query);
+
+  sendReport(res, {
+    name: "customer-lifetime-value",
+    message: "report.customer_lifetime_value_fetched",
+    format,
+    data: report,
+    rows: report.top_customers,
+    columns: [
+      { header: "user_id", value: (row) => row.user_id },
+      { header: "username", value: (row) => row.username },
+      { header: "email", value: (row) => row.email },
+      { header: "signed_up_at", value: (row) => row.signed_up_at },
+      { header: "orders", value: (row) => row.orders },
+      { header: "revenue", value: (row) => row.revenue },
+      { header: "refunded", value: (row) => row.refunded },
+      { header: "lifetime_value", value: (row) => row.lifetime_value },
+      { header: "average_order_value", value: (row) => row.average_order_value },
+      { header: "first_order_at", value: (row) => row.first_order_at },
+      { header: "last_order_at", value: (row) => row.last_order_at },
+    ],
+  });
+});
+
+// ✅ RETENSI COHORT PER BULAN DAFTAR
+export const getCohortRetentionReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { format, from, to } = validatedQuery(req, cohortRetentionReportSchema);
+
+  const report = await cohortRetention({ from, to });
+
+  // CSV dalam bentuk panjang: satu baris per cohort per bulan
+  sendReport(res, {
+    name: "cohort-retention",
+    message: "report.cohort_retention_fetched",
+    format,
+    data: report,
+    rows: report.cohorts.flatMap(({ months, ...cohort }) => months.map((month) => ({ ...cohort, ...month }))),
+    columns: [
+      { header: "cohort", value: (row) => row.cohort },
+      { header: "customers", value: (row) => row.customers },
+      { header: "month_offset", value: (row) => row.month_offset },
+      { header: "active_customers", value: (row) => row.active_customers },
+      { header: "retention_rate", value: (row) => row.retention_rate },
+    ],
+  });
+});
@@ -1,663 +1,561 @@
 import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
-
-const prisma = new PrismaClient();
-
-interface TransactionItem {
-  book_id: string;
-  quantity: number;
-}
+import { OrderStatus, Prisma, Shipment } from "@prisma/client";
+import prisma from "../config/database";
+import { AuthUser, currentUser } from "../auth/auth.middleware";
+import { userCan } from "../auth/authorize.middleware";
+import { ValidatedRequest, validatedQuery } from "../../middlewares/validate.middleware";
+import {
+  cancelTransactionSchema,
+  createRefundSchema,
+  createShipmentSchema,
+  createTransactionSchema,
+  createTransactionForUserSchema,
+  listTransactionsSchema,
+  ListTransactionsQuery,
+  transactionIdSchema,
+  updateShipmentSchema,
+  updateTransactionStatusSchema,
+  TransactionItem,
+} from "../validations/transaction.validation";
+import { changeOrderStatus, SOLD_STATUSES } from "../services/order-status.service";
+import { cancelOrder, refundOrder } from "../services/order-refund.service";
+import { createOrderShipment, updateOrderShipment } from "../services/shipment.service";
+import { soldOrder } from "../services/analytics.service";
+import {
+  createOrder,
+  createdOrderResponse,
+  orderBreakdown,
+  quoteOrder,
+  shippingAddressResponse,
+} from "../services/order.service";
+import { asyncHandler } from "../utils/async-handler";
+import { encodeCursor } from "../utils/cursor";
+import { HttpResponse } from "../utils/response";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
 
 interface GenreCount {
   name: string;
   total: bigint;
 }
 
-export const createTransaction = async (
-  req: Request,
-  res: Response
+const shipmentResponse = (shipment: Shipment) => ({
+  id: shipment.id,
+  carrier: shipment.carrier,
+  tracking_number: shipment.tracking_number,
+  shipped_at: shipment.shipped_at,
+  delivered_at: shipment.delivered_at,
+  note: shipment.note,
+  created_at: shipment.created_at,
+  updated_at: shipment.updated_at,
+});
+
+const canAccessOrder = (user: AuthUser, owner_id: string): boolean =>
+  user.id === owner_id || userCan(user, "transaction:read_all");
+
+// Refund butuh permission transaction:refund (staff & admin), status lain
+// transaction:update_status. Pemilik order hanya boleh membatalkan order yang
+// belum dibayar.
+const canChangeStatus = (
+  user: AuthUser,
+  order: { user_id: string; status: OrderStatus },
+  to: OrderStatus
+): boolean => {
+  if (to === "refunded") return userCan(user, "transaction:refund");
+  if (userCan(user, "transaction:update_status")) return true;
+  return to === "cancelled" && order.user_id === user.id && order.status === "pending";
+};
+
+// Syarat "masih pending" untuk pemilik order ikut dicek di UPDATE bersyarat,
+// supaya pembatalan tidak lolos kalau order dibayar di antara pengecekan di atas
+const cancelExpectedFrom = (user: AuthUser): OrderStatus | undefined =>
+  userCan(user, "transaction:update_status") ? undefined : "pending";
+
+// Dipakai oleh createTransaction (untuk diri sendiri) dan
+// createTransactionForUser (staff/admin memesan atas nama user lain)
+const placeOrder = async (
+  res: Response,
+  owner_id: string,
+  actor_id: string,
+  items: TransactionItem[],
+  coupon_code?: string,
+  address_id?: string
 ): Promise<void> => {
-  try {
-    const { user_id, items } = req.body as {
-      user_id: string;
-      items: TransactionItem[];
-    };
-
-    if (!user_id) {
-      res.status(400).json({ success: false, message: "user_id is required" });
-      return;
-    }
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      res
-        .status(400)
-        .json({ success: false, message: "items cannot be empty" });
-      return;
-    }
-    const user = await prisma.user.findUnique({ where: { id: user_id } });
-    if (!user) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
-    }
+  const user = await prisma.user.findUnique({ where: { id: owner_id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
 
-    let totalPrice = 0;
-    let totalQuantity = 0;
-    const bookOperations = [];
-    const orderItemsData = [];
-
-    for (const item of items) {
-      if (!item.book_id || item.quantity <= 0) {
-        res.status(400).json({
-          success: false,
-          message: "Each item must have valid book_id and quantity > 0",
-        });
-        return;
-      }
-
-      const book = await prisma.book.findFirst({
-        where: { id: item.book_id, deleted_at: null },
-      });
+  const createdOrder = await prisma.$transaction((tx) =>
+    createOrder(tx, { owner_id: user.id, actor_id, items, coupon_code, address_id })
+  );
 
-      if (!book) {
-        res.status(404).json({
-          success: false,
-          message: `Book with id ${item.book_id} not found`,
-        });
-        return;
-      }
-      if (book.stock_quantity < item.quantity) {
-        res.status(400).json({
-          success: false,
-          message: `Insufficient stock for "${book.title}". Available: ${book.stock_quantity}`,
-        });
-        return;
-      }
-
-      totalPrice += book.price * item.quantity;
-      totalQuantity += item.quantity;
-
-      orderItemsData.push({
-        book_id: item.book_id,
-        quantity: item.quantity,
-      });
+  HttpResponse.created(res, "transaction.created", createdOrderResponse(createdOrder));
+};
 
-      bookOperations.push(
-        prisma.book.update({
-          where: { id: item.book_id },
-          data: { stock_quantity: { decrement: item.quantity } },
-        })
-      );
-    }
+export const createTransaction = asyncHandler(async (
+  req: ValidatedRequest<typeof createTransactionSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
 
-    const [createdOrder] = await prisma.$transaction([
-      prisma.order.create({
-        data: {
-          user_id: user.id,
-          totalPrice: totalPrice,
-          items: {
-            create: orderItemsData,
-          },
-        },
-        include: {
-          user: {
-            select: { id: true, username: true, email: true },
-          },
-          items: {
-            include: { book: { include: { genre: true } } },
-          },
-        },
-      }),
-      ...bookOperations,
-    ]);
-
-    res.status(201).json({
-      success: true,
-      message: "Transaction created successfully",
-      data: {
-        transaction_id: createdOrder.id,
-        user: createdOrder.user,
-        total_quantity: totalQuantity,
-        total_price: createdOrder.totalPrice,
-        items: createdOrder.items.map((item) => ({
-          id: item.id,
-          book: {
-            id: item.book.id,
-            title: item.book.title,
-            writer: item.book.writer,
-            price: item.book.price,
-            genre: item.book.genre.name,
-          },
-          quantity: item.quantity,
-          subtotal: item.book.price * item.quantity,
-        })),
-        created_at: createdOrder.created_at,
-      },
-    });
-  } catch (error: unknown) {
-    console.error("❌ Create transaction error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to create transaction",
-      error: errorMessage,
-    });
-  }
-};
+  // Order selalu dibuat untuk user yang login, user_id dari body diabaikan
+  const { items, coupon_code, address_id } = req.body;
 
-export const getAllTransactions = async (
-  _req: Request,
+  await placeOrder(res, user.id, user.id, items, coupon_code, address_id);
+});
+
+export const createTransactionForUser = asyncHandler(async (
+  req: ValidatedRequest<typeof createTransactionForUserSchema>,
   res: Response
 ): Promise<void> => {
-  try {
-    const transactions = await prisma.order.findMany({
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-          },
-        },
-        items: {
-          include: {
-            book: {
-              include: {
-                genre: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: { created_at: "desc" },
-    });
+  const actor = currentUser(req);
+  const { user_id, items, coupon_code, address_id } = req.body;
 
-    res.status(200).json({
-      success: true,
-      message: "Get all transactions successfully",
-      count: transactions.length,
-      data: transactions.map((transaction) => ({
-        id: transaction.id,
-        user: transaction.user,
-        total_price: transaction.totalPrice,
-        total_items: transaction.items.length,
-        items: transaction.items.map((item) => ({
-          book_title: item.book.title,
-          genre: item.book.genre.name,
-          quantity: item.quantity,
-          price: item.book.price,
-        })),
-        created_at: transaction.created_at,
-      })),
-    });
-  } catch (error: unknown) {
-    console.error("❌ Get all transactions error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to get transactions",
-      error: errorMessage,
-    });
-  }
-};
+  // address_id harus alamat milik user_id, bukan milik staff
+  await placeOrder(res, user_id, actor.id, items, coupon_code, address_id);
+});
 
-export const getTransactionById = async (
-  req: Request,
+// ✅ QUOTE: rincian harga (diskon, pajak, ongkir) tanpa membuat order
+export const quoteTransaction = asyncHandler(async (
+  req: ValidatedRequest<typeof createTransactionSchema>,
   res: Response
 ): Promise<void> => {
-  try {
-    const { id } = req.params;
+  const user = currentUser(req);
+  const { items, coupon_code } = req.body;
+
+  const quote = await quoteOrder(prisma, { owner_id: user.id, items, coupon_code });
+
+  HttpResponse.ok(res, "transaction.quoted", quote);
+});
+
+// Filter daftar transaksi; owner_id (untuk /me) mengabaikan filter user_id.
+// Rentang tanggal [from, to) sama seperti analytics & report. Genre memakai
+// snapshot di order_items, bukan genre buku sekarang.
+const transactionFilter = (
+  query: ListTransactionsQuery,
+  owner_id?: string,
+  genre_name?: string
+): Prisma.OrderWhereInput => ({
+  user_id: owner_id ?? query.user_id,
+  ...(query.status && { status: { in: query.status } }),
+  ...((query.from || query.to) && { created_at: { gte: query.from, lt: query.to } }),
+  ...((query.min_total !== undefined || query.max_total !== undefined) && {
+    totalPrice: { gte: query.min_total, lte: query.max_total },
+  }),
+  ...((query.book_id || genre_name !== undefined) && {
+    items: {
+      some: {
+        book_id: query.book_id,
+        ...(genre_name !== undefined && { genre_name }),
+      },
+    },
+  }),
+});
+
+/**
+ * Satu halaman transaksi dengan cursor pagination. Diambil limit + 1 baris
+ * untuk tahu apakah masih ada halaman berikutnya; id sebagai tie-breaker
+ * supaya urutan stabil untuk total/tanggal yang sama.
+ */
+const findTransactionPage = async (query: ListTransactionsQuery, owner_id?: string) => {
+  let genre_name: string | undefined;
+  if (query.genre_id) {
+    const genre = await prisma.genre.findUnique({ where: { id: query.genre_id } });
+    if (!genre) {
+      throw new NotFoundError("genre.not_found");
+    }
+    genre_name = genre.name;
+  }
 
-    const transaction = await prisma.order.findUnique({
-      where: { id },
+  const where = transactionFilter(query, owner_id, genre_name);
+  const page = query.cursor?.page ?? 1;
+
+  const [rows, total] = await Promise.all([
+    prisma.order.findMany({
+      where,
       include: {
         user: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-          },
-        },
-        items: {
-          include: {
-            book: {
-              include: {
-                genre: true,
-              },
-            },
-          },
+          select: { id: true, username: true, email: true },
         },
+        items: query.expand === "items",
+        _count: { select: { items: true } },
       },
-    });
-
-    if (!transaction) {
-      res.status(404).json({
-        success: false,
-        message: "Transaction not found",
-      });
-      return;
-    }
-
-    res.status(200).json({
-      success: true,
-      message: "Get transaction detail successfully",
-      data: {
-        id: transaction.id,
-        user: transaction.user,
-        total_price: transaction.totalPrice,
+      orderBy: [
+        query.sort === "total_price" ? { totalPrice: query.order } : { created_at: query.order },
+        { id: query.order },
+      ],
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor.id }, skip: 1 }),
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  const transactions = rows.slice(0, query.limit);
+  const last = transactions[transactions.length - 1];
+
+  return {
+    transactions: transactions.map((transaction) => ({
+      id: transaction.id,
+      user: transaction.user,
+      status: transaction.status,
+      total_price: transaction.totalPrice,
+      total_items: transaction._count.items,
+      ...(query.expand === "items" && {
         items: transaction.items.map((item) => ({
-          id: item.id,
-          book: {
-            id: item.book.id,
-            title: item.book.title,
-            writer: item.book.writer,
-            publisher: item.book.publisher,
-            price: item.book.price,
-            genre: item.book.genre.name,
-          },
+          book_id: item.book_id,
+          book_title: item.book_title,
+          genre: item.genre_name,
           quantity: item.quantity,
-          subtotal: item.book.price * item.quantity,
+          price: item.unit_price,
         })),
-        created_at: transaction.created_at,
-        updated_at: transaction.updated_at,
-      },
-    });
-  } catch (error: unknown) {
-    console.error("❌ Get transaction by ID error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to get transaction detail",
-      error: errorMessage,
-    });
-  }
+      }),
+      created_at: transaction.created_at,
+    })),
+    pagination: {
+      page,
+      limit: query.limit,
+      total,
+      total_pages: Math.ceil(total / query.limit),
+      next_cursor: rows.length > query.limit && last ? encodeCursor({ id: last.id, page: page + 1 }) : null,
+    },
+  };
 };
 
-export const getTransactionStatistics = async (
-  _req: Request,
+export const getAllTransactions = asyncHandler(async (
+  req: Request,
   res: Response
 ): Promise<void> => {
-  try {
-    const totalTransactions = await prisma.order.count();
-
-    const avgResult = await prisma.order.aggregate({
-      _avg: {
-        totalPrice: true,
-      },
-    });
-
-    const topGenreResult = await prisma.$queryRaw<GenreCount[]>`
-      SELECT g.name, COUNT(oi.id)::bigint as total
-      FROM "order_items" oi
-      JOIN "books" b ON b.id = oi."book_id"
-      JOIN "genres" g ON g.id = b."genre_id"
-      WHERE b."deleted_at" IS NULL AND g."deleted_at" IS NULL
-      GROUP BY g.name
-      ORDER BY total DESC
-      LIMIT 1
-    `;
-
-    const leastGenreResult = await prisma.$queryRaw<GenreCount[]>`
-      SELECT g.name, COUNT(oi.id)::bigint as total
-      FROM "order_items" oi
-      JOIN "books" b ON b.id = oi."book_id"
-      JOIN "genres" g ON g.id = b."genre_id"
-      WHERE b."deleted_at" IS NULL AND g."deleted_at" IS NULL
-      GROUP BY g.name
-      ORDER BY total ASC
-      LIMIT 1
-    `;
-
-    res.status(200).json({
-      success: true,
-      message: "Get transaction statistics successfully",
-      data: {
-        total_transactions: totalTransactions,
-        average_transaction_value: avgResult._avg.totalPrice || 0,
-        most_popular_genre: topGenreResult[0]?.name || null,
-        least_popular_genre: leastGenreResult[0]?.name || null,
-      },
-    });
-  } catch (error: unknown) {
-    console.error("❌ Get transaction statistics error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to get transaction statistics",
-      error: errorMessage,
-    });
-  }
-};import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
+  const query = validatedQuery(req, listTransactionsSchema);
 
-const prisma = new PrismaClient();
+  const { transactions, pagination } = await findTransactionPage(query);
 
-interface TransactionItem {
-  book_id: string;
-  quantity: number;
-}
+  HttpResponse.ok(res, "transaction.list_fetched", transactions, { pagination });
+});
 
-interface GenreCount {
-  name: string;
-  total: bigint;
-}
-
-export const createTransaction = async (
+export const getMyTransactions = asyncHandler(async (
   req: Request,
   res: Response
 ): Promise<void> => {
-  try {
-    const { user_id, items } = req.body as {
-      user_id: string;
-      items: TransactionItem[];
-    };
-
-    if (!user_id) {
-      res.status(400).json({ success: false, message: "user_id is required" });
-      return;
-    }
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      res
-        .status(400)
-        .json({ success: false, message: "items cannot be empty" });
-      return;
-    }
-    const user = await prisma.user.findUnique({ where: { id: user_id } });
-    if (!user) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
-    }
-
-    let totalPrice = 0;
-    let totalQuantity = 0;
-    const bookOperations = [];
-    const orderItemsData = [];
-
-    for (const item of items) {
-      if (!item.book_id || item.quantity <= 0) {
-        res.status(400).json({
-          success: false,
-          message: "Each item must have valid book_id and quantity > 0",
-        });
-        return;
-      }
-
-      const book = await prisma.book.findFirst({
-        where: { id: item.book_id, deleted_at: null },
-      });
+  const user = currentUser(req);
+  const query = validatedQuery(req, listTransactionsSchema);
 
-      if (!book) {
-        res.status(404).json({
-          success: false,
-          message: `Book with id ${item.book_id} not found`,
-        });
-        return;
-      }
-      if (book.stock_quantity < item.quantity) {
-        res.status(400).json({
-          success: false,
-          message: `Insufficient stock for "${book.title}". Available: ${book.stock_quantity}`,
-        });
-        return;
-      }
-
-      totalPrice += book.price * item.quantity;
-      totalQuantity += item.quantity;
-
-      orderItemsData.push({
-        book_id: item.book_id,
-        quantity: item.quantity,
-      });
+  const { transactions, pagination } = await findTransactionPage(query, user.id);
 
-      bookOperations.push(
-        prisma.book.update({
-          where: { id: item.book_id },
-          data: { stock_quantity: { decrement: item.quantity } },
-        })
-      );
-    }
+  HttpResponse.ok(
+    res,
+    "transaction.my_list_fetched",
+    transactions.map(({ user: _owner, ...transaction }) => transaction),
+    { pagination }
+  );
+});
 
-    const [createdOrder] = await prisma.$transaction([
-      prisma.order.create({
-        data: {
-          user_id: user.id,
-          totalPrice: totalPrice,
-          items: {
-            create: orderItemsData,
-          },
+export const getTransactionById = asyncHandler(async (
+  req: ValidatedRequest<typeof transactionIdSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id } = req.params;
+
+  const transaction = await prisma.order.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          email: true,
         },
+      },
+      created_by: {
+        select: {
+          id: true,
+          username: true,
+          email: true,
+        },
+      },
+      items: {
+        include: { book: true },
+      },
+      status_history: {
         include: {
-          user: {
+          changed_by: {
             select: { id: true, username: true, email: true },
           },
-          items: {
-            include: { book: { include: { genre: true } } },
-          },
         },
-      }),
-      ...bookOperations,
-    ]);
-
-    res.status(201).json({
-      success: true,
-      message: "Transaction created successfully",
-      data: {
-        transaction_id: createdOrder.id,
-        user: createdOrder.user,
-        total_quantity: totalQuantity,
-        total_price: createdOrder.totalPrice,
-        items: createdOrder.items.map((item) => ({
-          id: item.id,
-          book: {
-            id: item.book.id,
-            title: item.book.title,
-            writer: item.book.writer,
-            price: item.book.price,
-            genre: item.book.genre.name,
-          },
-          quantity: item.quantity,
-          subtotal: item.book.price * item.quantity,
-        })),
-        created_at: createdOrder.created_at,
+        orderBy: { created_at: "asc" },
       },
-    });
-  } catch (error: unknown) {
-    console.error("❌ Create transaction error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to create transaction",
-      error: errorMessage,
-    });
+      refunds: {
+        include: { items: true },
+        orderBy: { created_at: "asc" },
+      },
+      coupon_redemption: {
+        include: { coupon: { select: { code: true } } },
+      },
+      shipping_address: true,
+      shipments: {
+        orderBy: { created_at: "asc" },
+      },
+      payments: {
+        orderBy: { created_at: "asc" },
+      },
+    },
+  });
+
+  // Customer hanya boleh melihat order miliknya sendiri;
+  // order milik orang lain diperlakukan seperti tidak ada
+  if (!transaction || !canAccessOrder(user, transaction.user_id)) {
+    throw new NotFoundError("transaction.not_found");
   }
-};
 
-export const getAllTransactions = async (
-  _req: Request,
+  HttpResponse.ok(res, "transaction.detail_fetched", {
+    id: transaction.id,
+    user: transaction.user,
+    created_by: transaction.created_by,
+    status: transaction.status,
+    coupon_code: transaction.coupon_redemption?.coupon.code ?? null,
+    ...orderBreakdown(transaction),
+    expires_at: transaction.status === "pending" ? transaction.expires_at : null,
+    payments: transaction.payments.map((payment) => ({
+      id: payment.id,
+      provider: payment.provider,
+      amount: payment.amount,
+      status: payment.status,
+      refunded_amount: payment.refunded_amount,
+      failure_reason: payment.failure_reason,
+      captured_at: payment.captured_at,
+      created_at: payment.created_at,
+    })),
+    shipping_address: shippingAddressResponse(transaction.shipping_address),
+    shipments: transaction.shipments.map(shipmentResponse),
+    items: transaction.items.map((item) => ({
+      id: item.id,
+      book: {
+        id: item.book_id,
+        title: item.book_title,
+        writer: item.book.writer,
+        publisher: item.book.publisher,
+        price: item.unit_price,
+        genre: item.genre_name,
+      },
+      quantity: item.quantity,
+      refunded_quantity: item.refunded_quantity,
+      subtotal: item.unit_price * item.quantity,
+    })),
+    status_history: transaction.status_history.map((history) => ({
+      from_status: history.from_status,
+      to_status: history.to_status,
+      changed_by: history.changed_by,
+      note: history.note,
+      created_at: history.created_at,
+    })),
+    refunds: transaction.refunds.map((refund) => ({
+      id: refund.id,
+      amount: refund.amount,
+      reason: refund.reason,
+      items: refund.items.map((item) => ({
+        order_item_id: item.order_item_id,
+        quantity: item.quantity,
+        amount: item.amount,
+      })),
+      created_at: refund.created_at,
+    })),
+    total_refunded: transaction.refunds.reduce((sum, refund) => sum + refund.amount, 0),
+    created_at: transaction.created_at,
+    updated_at: transaction.updated_at,
+  });
+});
+
+// ✅ UPDATE STATUS (lihat ORDER_STATUS_TRANSITIONS untuk transisi yang valid)
+export const updateTransactionStatus = asyncHandler(async (
+  req: ValidatedRequest<typeof updateTransactionStatusSchema>,
   res: Response
 ): Promise<void> => {
-  try {
-    const transactions = await prisma.order.findMany({
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-          },
-        },
-        items: {
-          include: {
-            book: {
-              include: {
-                genre: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: { created_at: "desc" },
-    });
+  const user = currentUser(req);
+  const { id } = req.params;
+  const { status, note } = req.body;
 
-    res.status(200).json({
-      success: true,
-      message: "Get all transactions successfully",
-      count: transactions.length,
-      data: transactions.map((transaction) => ({
-        id: transaction.id,
-        user: transaction.user,
-        total_price: transaction.totalPrice,
-        total_items: transaction.items.length,
-        items: transaction.items.map((item) => ({
-          book_title: item.book.title,
-          genre: item.book.genre.name,
-          quantity: item.quantity,
-          price: item.book.price,
-        })),
-        created_at: transaction.created_at,
-      })),
-    });
-  } catch (error: unknown) {
-    console.error("❌ Get all transactions error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to get transactions",
-      error: errorMessage,
+  const order = await prisma.order.findUnique({ where: { id } });
+  if (!order || !canAccessOrder(user, order.user_id)) {
+    throw new NotFoundError("transaction.not_found");
+  }
+
+  if (!canChangeStatus(user, order, status)) {
+    throw new ForbiddenError({
+      key: "transaction.status_change_forbidden",
+      params: { to: status },
     });
   }
-};
 
-export const getTransactionById = async (
-  req: Request,
+  // Pembatalan & refund penuh juga mengembalikan stok
+  switch (status) {
+    case "cancelled":
+      await cancelOrder(id, {
+        created_by_id: user.id,
+        reason: note,
+        expected_from: cancelExpectedFrom(user),
+      });
+      break;
+    case "refunded":
+      await refundOrder(id, undefined, { created_by_id: user.id, reason: note });
+      break;
+    default:
+      await changeOrderStatus(id, status, { changed_by_id: user.id, note });
+  }
+
+  HttpResponse.ok(res, "transaction.status_updated", {
+    id: order.id,
+    previous_status: order.status,
+    status,
+  });
+});
+
+// ✅ CANCEL (pemilik order selama masih pending, atau staff/admin)
+export const cancelTransaction = asyncHandler(async (
+  req: ValidatedRequest<typeof cancelTransactionSchema>,
   res: Response
 ): Promise<void> => {
-  try {
-    const { id } = req.params;
-
-    const transaction = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-          },
-        },
-        items: {
-          include: {
-            book: {
-              include: {
-                genre: true,
-              },
-            },
-          },
-        },
-      },
-    });
+  const user = currentUser(req);
+  const { id } = req.params;
 
-    if (!transaction) {
-      res.status(404).json({
-        success: false,
-        message: "Transaction not found",
-      });
-      return;
-    }
+  const order = await prisma.order.findUnique({ where: { id } });
+  if (!order || !canAccessOrder(user, order.user_id)) {
+    throw new NotFoundError("transaction.not_found");
+  }
 
-    res.status(200).json({
-      success: true,
-      message: "Get transaction detail successfully",
-      data: {
-        id: transaction.id,
-        user: transaction.user,
-        total_price: transaction.totalPrice,
-        items: transaction.items.map((item) => ({
-          id: item.id,
-          book: {
-            id: item.book.id,
-            title: item.book.title,
-            writer: item.book.writer,
-            publisher: item.book.publisher,
-            price: item.book.price,
-            genre: item.book.genre.name,
-          },
-          quantity: item.quantity,
-          subtotal: item.book.price * item.quantity,
-        })),
-        created_at: transaction.created_at,
-        updated_at: transaction.updated_at,
-      },
-    });
-  } catch (error: unknown) {
-    console.error("❌ Get transaction by ID error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to get transaction detail",
-      error: errorMessage,
+  if (!canChangeStatus(user, order, "cancelled")) {
+    throw new ForbiddenError({
+      key: "transaction.status_change_forbidden",
+      params: { to: "cancelled" },
     });
   }
-};
 
-export const getTransactionStatistics = async (
-  _req: Request,
+  const cancelled = await cancelOrder(id, {
+    created_by_id: user.id,
+    reason: req.body.reason,
+    expected_from: cancelExpectedFrom(user),
+  });
+
+  HttpResponse.ok(res, "transaction.cancelled", {
+    id: cancelled.id,
+    previous_status: order.status,
+    status: cancelled.status,
+  });
+});
+
+// ✅ REFUND penuh / sebagian per item
+export const createRefund = asyncHandler(async (
+  req: ValidatedRequest<typeof createRefundSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id } = req.params;
+  const { items, reason } = req.body;
+
+  const { refund, status } = await refundOrder(id, items, { created_by_id: user.id, reason });
+
+  HttpResponse.created(res, "refund.created", {
+    id: refund.id,
+    transaction_id: refund.order_id,
+    amount: refund.amount,
+    reason: refund.reason,
+    items: refund.items.map((item) => ({
+      order_item_id: item.order_item_id,
+      quantity: item.quantity,
+      amount: item.amount,
+    })),
+    transaction_status: status,
+    created_at: refund.created_at,
+  });
+});
+
+// ✅ SHIPMENT: status order ikut maju (processing → shipped → delivered)
+export const createShipment = asyncHandler(async (
+  req: ValidatedRequest<typeof createShipmentSchema>,
   res: Response
 ): Promise<void> => {
-  try {
-    const totalTransactions = await prisma.order.count();
+  const user = currentUser(req);
+  const { id } = req.params;
 
-    const avgResult = await prisma.order.aggregate({
-      _avg: {
-        totalPrice: true,
-      },
-    });
+  const { shipment, status } = await createOrderShipment(id, req.body, user.id);
 
-    const topGenreResult = await prisma.$queryRaw<GenreCount[]>`
-      SELECT g.name, COUNT(oi.id)::bigint as total
-      FROM "order_items" oi
-      JOIN "books" b ON b.id = oi."book_id"
-      JOIN "genres" g ON g.id = b."genre_id"
-      WHERE b."deleted_at" IS NULL AND g."deleted_at" IS NULL
-      GROUP BY g.name
-      ORDER BY total DESC
-      LIMIT 1
-    `;
-
-    const leastGenreResult = await prisma.$queryRaw<GenreCount[]>`
-      SELECT g.name, COUNT(oi.id)::bigint as total
-      FROM "order_items" oi
-      JOIN "books" b ON b.id = oi."book_id"
-      JOIN "genres" g ON g.id = b."genre_id"
-      WHERE b."deleted_at" IS NULL AND g."deleted_at" IS NULL
-      GROUP BY g.name
-      ORDER BY total ASC
-      LIMIT 1
-    `;
-
-    res.status(200).json({
-      success: true,
-      message: "Get transaction statistics successfully",
-      data: {
-        total_transactions: totalTransactions,
-        average_transaction_value: avgResult._avg.totalPrice || 0,
-        most_popular_genre: topGenreResult[0]?.name || null,
-        least_popular_genre: leastGenreResult[0]?.name || null,
-      },
-    });
-  } catch (error: unknown) {
-    console.error("❌ Get transaction statistics error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      message: "Failed to get transaction statistics",
-      error: errorMessage,
-    });
-  }
-};
+  HttpResponse.created(res, "shipment.created", {
+    ...shipmentResponse(shipment),
+    transaction_status: status,
+  });
+});
+
+export const updateShipment = asyncHandler(async (
+  req: ValidatedRequest<typeof updateShipmentSchema>,
+  res: Response
+): Promise<void> => {
+  const user = currentUser(req);
+  const { id, shipment_id } = req.params;
+
+  const { shipment, status } = await updateOrderShipment(id, shipment_id, req.body, user.id);
+
+  HttpResponse.ok(res, "shipment.updated", {
+    ...shipmentResponse(shipment),
+    transaction_status: status,
+  });
+});
+
+export const getTransactionStatistics = asyncHandler(async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  // Semua angka hanya dari order yang sudah dibayar (pending & cancelled tidak dihitung)
+  const sold: Prisma.OrderWhereInput = { status: { in: SOLD_STATUSES } };
+
+  const totalTransactions = await prisma.order.count({ where: sold });
+
+  const avgResult = await prisma.order.aggregate({
+    where: sold,
+    _avg: {
+      totalPrice: true,
+    },
+  });
+
+  const topGenreResult = await prisma.$queryRaw<GenreCount[]>`
+    SELECT oi."genre_name" as name, COUNT(oi.id)::bigint as total
+    FROM "order_items" oi
+    JOIN "orders" o ON o."id" = oi."order_id"
+    WHERE ${soldOrder}
+    GROUP BY oi."genre_name"
+    ORDER BY total DESC
+    LIMIT 1
+  `;
+
+  const leastGenreResult = await prisma.$queryRaw<GenreCount[]>`
+    SELECT oi."genre_name" as name, COUNT(oi.id)::bigint as total
+    FROM "order_items" oi
+    JOIN "orders" o ON o."id" = oi."order_id"
+    WHERE ${soldOrder}
+    GROUP BY oi."genre_name"
+    ORDER BY total ASC
+    LIMIT 1
+  `;
+
+  // Pendapatan bersih: order yang sudah dibayar dikurangi total refund
+  const [grossResult, refundResult] = await Promise.all([
+    prisma.order.aggregate({
+      where: sold,
+      _sum: { totalPrice: true },
+    }),
+    prisma.refund.aggregate({
+      where: { order: sold },
+      _sum: { amount: true },
+    }),
+  ]);
+  const grossRevenue = grossResult._sum.totalPrice || 0;
+  const refundedAmount = refundResult._sum.amount || 0;
+
+  HttpResponse.ok(res, "transaction.statistics_fetched", {
+    total_transactions: totalTransactions,
+    average_transaction_value: avgResult._avg.totalPrice || 0,
+    gross_revenue: grossRevenue,
+    refunded_amount: refundedAmount,
+    net_revenue: grossRevenue - refundedAmount,
+    most_popular_genre: topGenreResult[0]?.name || null,
+    least_popular_genre: leastGenreResult[0]?.name || null,
+  });
+});
@@ -0,0 +1,198 @@
+import { Request, Response } from "express";
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { ValidatedRequest, validatedQuery } from "../../middlewares/validate.middleware";
+import {
+  getUsersSchema,
+  userIdSchema,
+  updateUserRoleSchema,
+} from "../validations/user.validation";
+import { revokeAllSessions } from "../auth/session.service";
+import { issueUserToken } from "../auth/user-token.service";
+import { sendPasswordResetEmail } from "../auth/auth.mail";
+import { SOLD_STATUSES } from "../services/order-status.service";
+import { asyncHandler } from "../utils/async-handler";
+import { HttpResponse } from "../utils/response";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+
+const userSelect = {
+  id: true,
+  username: true,
+  email: true,
+  role: true,
+  email_verified_at: true,
+  disabled_at: true,
+  deleted_at: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.UserSelect;
+
+// ✅ LIST + SEARCH
+export const getUsers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { search, role, page, limit } = validatedQuery(req, getUsersSchema);
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.UserWhereInput = {
+    ...(role && { role }),
+    ...(search && {
+      OR: [
+        { email: { contains: search, mode: "insensitive" } },
+        { username: { contains: search, mode: "insensitive" } },
+      ],
+    }),
+  };
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      skip,
+      take: limit,
+      select: userSelect,
+      orderBy: { created_at: "desc" },
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  HttpResponse.ok(res, "user.list_fetched", users, {
+    pagination: {
+      page,
+      limit,
+      total,
+      total_pages: Math.ceil(total / limit),
+    }
+  });
+});
+
+// ✅ DETAIL + statistik order
+export const getUserById = asyncHandler(async (
+  req: ValidatedRequest<typeof userIdSchema>,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params;
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: userSelect,
+  });
+
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  // Belanja hanya dari order yang sudah dibayar, dikurangi refund
+  const [orderCount, spent, refunded] = await Promise.all([
+    prisma.order.count({ where: { user_id: id } }),
+    prisma.order.aggregate({
+      where: { user_id: id, status: { in: SOLD_STATUSES } },
+      _sum: { totalPrice: true },
+    }),
+    prisma.refund.aggregate({
+      where: { order: { user_id: id, status: { in: SOLD_STATUSES } } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  HttpResponse.ok(res, "user.detail_fetched", {
+    ...user,
+    order_count: orderCount,
+    lifetime_spend: (spent._sum.totalPrice || 0) - (refunded._sum.amount || 0),
+  });
+});
+
+const setDisabled = async (
+  req: ValidatedRequest<typeof userIdSchema>,
+  res: Response,
+  disabled: boolean
+): Promise<void> => {
+  const { id } = req.params;
+
+  if (req.user?.id === id) {
+    throw new BadRequestError("user.cannot_change_own_status");
+  }
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  const updated = await prisma.user.update({
+    where: { id },
+    data: { disabled_at: disabled ? user.disabled_at || new Date() : null },
+    select: userSelect,
+  });
+
+  // Semua session dicabut supaya akun langsung ter-logout
+  if (disabled) {
+    await revokeAllSessions(id);
+  }
+
+  HttpResponse.ok(res, disabled ? "user.disabled" : "user.enabled", updated);
+};
+
+export const disableUser = asyncHandler(async (
+  req: ValidatedRequest<typeof userIdSchema>,
+  res: Response
+): Promise<void> => {
+  await setDisabled(req, res, true);
+});
+
+export const enableUser = asyncHandler(async (
+  req: ValidatedRequest<typeof userIdSchema>,
+  res: Response
+): Promise<void> => {
+  await setDisabled(req, res, false);
+});
+
+export const updateUserRole = asyncHandler(async (
+  req: ValidatedRequest<typeof updateUserRoleSchema>,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params;
+  const { role } = req.body;
+
+  // Mencegah admin mengunci dirinya sendiri
+  if (req.user?.id === id) {
+    throw new BadRequestError("user.cannot_change_own_role");
+  }
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  const updated = await prisma.user.update({
+    where: { id },
+    data: { role },
+    select: userSelect,
+  });
+
+  HttpResponse.ok(res, "user.role_updated", updated);
+});
+
+// Password lama langsung tidak berlaku, user harus memakai link reset di email
+export const forcePasswordReset = asyncHandler(async (
+  req: ValidatedRequest<typeof userIdSchema>,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params;
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user || user.deleted_at) {
+    throw new NotFoundError("user.not_found");
+  }
+
+  await prisma.user.update({
+    where: { id },
+    data: {
+      password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+    },
+  });
+  await revokeAllSessions(id);
+
+  const token = await issueUserToken(id, "password_reset");
+  await sendPasswordResetEmail(user.email, token);
+
+  HttpResponse.ok(res, "user.password_reset_forced");
+});
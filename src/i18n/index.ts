@@ -0,0 +1,76 @@
+import { Request } from "express";
+import { Locale, messages, SUPPORTED_LOCALES } from "./messages";
+
+export type { Locale };
+export { SUPPORTED_LOCALES };
+
+export type MessageKey = keyof typeof messages;
+
+export type MessageParams = Record<string, string | number>;
+
+// Pesan yang butuh interpolasi, misal { key: "stock.insufficient", params: { available: 2 } }
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type MessageInput = MessageKey | Message;
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+export const DEFAULT_LOCALE: Locale = isLocale(process.env.DEFAULT_LOCALE)
+  ? process.env.DEFAULT_LOCALE
+  : "id";
+
+export const isMessageKey = (value: string): value is MessageKey =>
+  Object.prototype.hasOwnProperty.call(messages, value);
+
+export const toMessage = (message: MessageInput): Message =>
+  typeof message === "string" ? { key: message } : message;
+
+/**
+ * Terjemahkan pesan ke locale tertentu. Placeholder {nama} diganti dengan
+ * params[nama], placeholder tanpa nilai dibiarkan apa adanya.
+ */
+export const t = (message: MessageInput, locale: Locale): string => {
+  const { key, params } = toMessage(message);
+  const template: string = messages[key][locale];
+
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+};
+
+/**
+ * Pilih locale dari header Accept-Language, misal "en-US,en;q=0.9,id;q=0.8".
+ * Mengembalikan null kalau tidak ada bahasa yang didukung.
+ */
+export const parseAcceptLanguage = (header: string | undefined): Locale | null => {
+  if (!header) return null;
+
+  const candidates = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...attrs] = part.trim().split(";");
+      const q = attrs.find((attr) => attr.trim().startsWith("q="));
+      return {
+        language: tag.trim().toLowerCase().split("-")[0],
+        quality: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ quality }) => !isNaN(quality) && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  const match = candidates.find(({ language }) => isLocale(language));
+  return match ? (match.language as Locale) : null;
+};
+
+/**
+ * Locale untuk request ini: preferensi user yang login, lalu Accept-Language,
+ * lalu DEFAULT_LOCALE
+ */
+export const resolveLocale = (req: Request): Locale =>
+  req.user?.locale ?? parseAcceptLanguage(req.get("accept-language")) ?? DEFAULT_LOCALE;
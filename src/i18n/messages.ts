@@ -0,0 +1,873 @@
+export const SUPPORTED_LOCALES = ["id", "en"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Katalog pesan API. Setiap key wajib punya terjemahan untuk semua locale,
+// placeholder {nama} diisi lewat params (lihat t() di ./index.ts)
+export const messages = {
+  // ✅ UMUM
+  "common.hello": {
+    id: "Halo Dunia!",
+    en: "Hello World!",
+  },
+
+  // ✅ ERROR UMUM
+  "error.bad_request": {
+    id: "Permintaan tidak valid",
+    en: "Bad Request",
+  },
+  "error.invalid_json": {
+    id: "Body JSON tidak valid",
+    en: "Malformed JSON body",
+  },
+  "error.validation_failed": {
+    id: "Validasi gagal",
+    en: "Validation failed",
+  },
+  "error.unauthorized": {
+    id: "Tidak terautentikasi",
+    en: "Unauthorized",
+  },
+  "error.forbidden": {
+    id: "Anda tidak memiliki akses ke resource ini",
+    en: "You do not have access to this resource",
+  },
+  "error.not_found": {
+    id: "Tidak ditemukan",
+    en: "Not Found",
+  },
+  "error.route_not_found": {
+    id: "Route tidak ditemukan",
+    en: "Route not found",
+  },
+  "error.conflict": {
+    id: "Konflik dengan data yang sudah ada",
+    en: "Conflict",
+  },
+  "error.too_many_requests": {
+    id: "Terlalu banyak permintaan",
+    en: "Too many requests",
+  },
+  "error.internal": {
+    id: "Terjadi kesalahan pada server",
+    en: "Internal Server Error",
+  },
+  "error.resource_exists": {
+    id: "Data sudah ada",
+    en: "Resource already exists",
+  },
+  "error.resource_not_found": {
+    id: "Data tidak ditemukan",
+    en: "Resource not found",
+  },
+  "error.related_constraint": {
+    id: "Data masih terkait dengan data lain",
+    en: "Related resource constraint failed",
+  },
+  "error.invalid_identifier": {
+    id: "Identifier tidak valid",
+    en: "Invalid identifier",
+  },
+
+  // ✅ IDEMPOTENCY
+  "idempotency.invalid_key": {
+    id: "Header Idempotency-Key tidak boleh kosong dan maksimal {max} karakter",
+    en: "Idempotency-Key header must be non-empty and at most {max} characters",
+  },
+  "idempotency.key_mismatch": {
+    id: "Idempotency-Key sudah dipakai untuk request dengan body atau endpoint berbeda",
+    en: "Idempotency-Key was already used for a request with a different body or endpoint",
+  },
+  "idempotency.in_progress": {
+    id: "Request dengan Idempotency-Key ini masih diproses",
+    en: "A request with this Idempotency-Key is still being processed",
+  },
+
+  // ✅ VALIDASI FIELD (per kode error di validate.middleware)
+  "validation.required": {
+    id: "Wajib diisi",
+    en: "This field is required",
+  },
+  "validation.invalid_type": {
+    id: "Tipe data tidak valid",
+    en: "Invalid type",
+  },
+  "validation.invalid_uuid": {
+    id: "UUID tidak valid",
+    en: "Invalid UUID",
+  },
+  "validation.invalid_format": {
+    id: "Format tidak valid",
+    en: "Invalid format",
+  },
+  "validation.invalid_value": {
+    id: "Nilai tidak valid",
+    en: "Invalid value",
+  },
+  "validation.unknown_field": {
+    id: "Field tidak dikenal: {fields}",
+    en: "Unknown field(s): {fields}",
+  },
+  "validation.too_small": {
+    id: "Minimal {minimum}",
+    en: "Must be at least {minimum}",
+  },
+  "validation.too_big": {
+    id: "Maksimal {maximum}",
+    en: "Must be at most {maximum}",
+  },
+  "validation.too_short": {
+    id: "Minimal {minimum} karakter",
+    en: "Must contain at least {minimum} character(s)",
+  },
+  "validation.too_long": {
+    id: "Maksimal {maximum} karakter",
+    en: "Must contain at most {maximum} character(s)",
+  },
+  "validation.too_few": {
+    id: "Minimal {minimum} item",
+    en: "Must contain at least {minimum} item(s)",
+  },
+  "validation.too_many": {
+    id: "Maksimal {maximum} item",
+    en: "Must contain at most {maximum} item(s)",
+  },
+  "validation.empty_body": {
+    id: "Minimal satu field harus diisi",
+    en: "At least one field must be provided",
+  },
+  "validation.duplicate": {
+    id: "Setiap item hanya boleh muncul sekali",
+    en: "Each item may only appear once",
+  },
+  "validation.percentage_too_big": {
+    id: "Diskon persentase maksimal 100",
+    en: "A percentage discount must be at most 100",
+  },
+  "validation.invalid_date_range": {
+    id: "ends_at harus setelah starts_at",
+    en: "ends_at must be after starts_at",
+  },
+  "validation.coupon_scope_conflict": {
+    id: "Kupon hanya boleh dibatasi ke satu buku atau satu genre",
+    en: "A coupon may be limited to either one book or one genre",
+  },
+  "validation.delivered_before_shipped": {
+    id: "delivered_at harus diisi setelah shipped_at",
+    en: "delivered_at requires a shipped_at on or before it",
+  },
+  "validation.invalid_range": {
+    id: "Batas bawah tidak boleh melebihi batas atas",
+    en: "The lower bound must not exceed the upper bound",
+  },
+  "validation.too_many_buckets": {
+    id: "Rentang terlalu panjang untuk interval ini, gunakan interval yang lebih besar",
+    en: "The range is too long for this interval, use a larger interval",
+  },
+  "validation.invalid_cursor": {
+    id: "Cursor tidak valid",
+    en: "Invalid cursor",
+  },
+  "validation.invalid": {
+    id: "Tidak valid",
+    en: "Invalid",
+  },
+  "validation.invalid_email": {
+    id: "Format email tidak valid",
+    en: "Invalid email format",
+  },
+
+  // ✅ BUKU
+  "book.created": {
+    id: "Buku berhasil dibuat",
+    en: "Book created successfully",
+  },
+  "book.list_fetched": {
+    id: "Daftar buku berhasil diambil",
+    en: "Books fetched successfully",
+  },
+  "book.detail_fetched": {
+    id: "Detail buku berhasil diambil",
+    en: "Book detail fetched successfully",
+  },
+  "book.updated": {
+    id: "Buku berhasil diupdate",
+    en: "Book updated successfully",
+  },
+  "book.deleted": {
+    id: "Buku berhasil dihapus",
+    en: "Book deleted successfully",
+  },
+  "book.not_found": {
+    id: "Buku tidak ditemukan",
+    en: "Book not found",
+  },
+  "book.not_found_by_id": {
+    id: "Buku dengan id {book_id} tidak ditemukan",
+    en: "Book with id {book_id} not found",
+  },
+  "book.not_found_or_deleted": {
+    id: "Buku tidak ditemukan atau sudah dihapus",
+    en: "Book not found or already deleted",
+  },
+  "book.title_taken": {
+    id: "Judul buku sudah ada",
+    en: "Book title already exists",
+  },
+
+  // ✅ GENRE
+  "genre.created": {
+    id: "Genre berhasil dibuat",
+    en: "Genre created successfully",
+  },
+  "genre.list_fetched": {
+    id: "Daftar genre berhasil diambil",
+    en: "Genres fetched successfully",
+  },
+  "genre.detail_fetched": {
+    id: "Detail genre berhasil diambil",
+    en: "Genre detail fetched successfully",
+  },
+  "genre.updated": {
+    id: "Genre berhasil diupdate",
+    en: "Genre updated successfully",
+  },
+  "genre.deleted": {
+    id: "Genre berhasil dihapus",
+    en: "Genre deleted successfully",
+  },
+  "genre.not_found": {
+    id: "Genre tidak ditemukan",
+    en: "Genre not found",
+  },
+  "genre.not_found_or_deleted": {
+    id: "Genre tidak ditemukan atau sudah dihapus",
+    en: "Genre not found or already deleted",
+  },
+  "genre.exists": {
+    id: "Genre sudah ada",
+    en: "Genre already exists",
+  },
+  "genre.name_taken": {
+    id: "Nama genre sudah digunakan",
+    en: "Genre name is already in use",
+  },
+  "genre.has_active_books": {
+    id: "Tidak dapat menghapus genre. Masih ada {count} buku aktif dengan genre ini",
+    en: "Cannot delete genre. There are still {count} active book(s) in this genre",
+  },
+
+  // ✅ STOK
+  "stock.insufficient": {
+    id: "Stok \"{title}\" tidak mencukupi: tersisa {available}, diminta {requested}",
+    en: "Insufficient stock for \"{title}\": {available} left, {requested} requested",
+  },
+  "stock.insufficient_many": {
+    id: "Stok tidak mencukupi untuk {count} buku",
+    en: "Insufficient stock for {count} books",
+  },
+
+  // ✅ KERANJANG
+  "cart.fetched": {
+    id: "Keranjang berhasil diambil",
+    en: "Cart fetched successfully",
+  },
+  "cart.item_added": {
+    id: "Buku berhasil ditambahkan ke keranjang",
+    en: "Book added to cart",
+  },
+  "cart.item_updated": {
+    id: "Jumlah buku di keranjang berhasil diubah",
+    en: "Cart item updated successfully",
+  },
+  "cart.item_removed": {
+    id: "Buku berhasil dikeluarkan dari keranjang",
+    en: "Book removed from cart",
+  },
+  "cart.cleared": {
+    id: "Keranjang berhasil dikosongkan",
+    en: "Cart cleared successfully",
+  },
+  "cart.item_not_found": {
+    id: "Buku tidak ada di keranjang",
+    en: "Book is not in the cart",
+  },
+  "cart.empty": {
+    id: "Keranjang masih kosong",
+    en: "Cart is empty",
+  },
+  "cart.warning_book_deleted": {
+    id: "\"{title}\" sudah tidak dijual, keluarkan dari keranjang untuk checkout",
+    en: "\"{title}\" is no longer available, remove it from the cart to check out",
+  },
+  "cart.warning_price_changed": {
+    id: "Harga \"{title}\" berubah dari {previous} menjadi {current}",
+    en: "The price of \"{title}\" changed from {previous} to {current}",
+  },
+
+  // ✅ KUPON
+  "coupon.list_fetched": {
+    id: "Daftar kupon berhasil diambil",
+    en: "Coupons fetched successfully",
+  },
+  "coupon.detail_fetched": {
+    id: "Detail kupon berhasil diambil",
+    en: "Coupon detail fetched successfully",
+  },
+  "coupon.created": {
+    id: "Kupon berhasil dibuat",
+    en: "Coupon created successfully",
+  },
+  "coupon.updated": {
+    id: "Kupon berhasil diubah",
+    en: "Coupon updated successfully",
+  },
+  "coupon.deleted": {
+    id: "Kupon berhasil dihapus",
+    en: "Coupon deleted successfully",
+  },
+  "coupon.report_fetched": {
+    id: "Laporan pemakaian kupon berhasil diambil",
+    en: "Coupon redemption report fetched successfully",
+  },
+  "coupon.not_found": {
+    id: "Kupon tidak ditemukan",
+    en: "Coupon not found",
+  },
+  "coupon.code_taken": {
+    id: "Kode kupon sudah dipakai",
+    en: "Coupon code is already taken",
+  },
+  "coupon.invalid_code": {
+    id: "Kode kupon \"{code}\" tidak valid",
+    en: "Coupon code \"{code}\" is not valid",
+  },
+  "coupon.not_started": {
+    id: "Kupon \"{code}\" belum bisa dipakai",
+    en: "Coupon \"{code}\" is not active yet",
+  },
+  "coupon.expired": {
+    id: "Kupon \"{code}\" sudah kadaluarsa",
+    en: "Coupon \"{code}\" has expired",
+  },
+  "coupon.min_order_not_met": {
+    id: "Kupon \"{code}\" hanya untuk belanja minimal {min_order_total}",
+    en: "Coupon \"{code}\" requires an order total of at least {min_order_total}",
+  },
+  "coupon.not_applicable": {
+    id: "Kupon \"{code}\" tidak berlaku untuk buku di order ini",
+    en: "Coupon \"{code}\" does not apply to any book in this order",
+  },
+  "coupon.usage_limit_reached": {
+    id: "Kupon \"{code}\" sudah habis dipakai",
+    en: "Coupon \"{code}\" has reached its usage limit",
+  },
+  "coupon.user_limit_reached": {
+    id: "Anda sudah memakai kupon \"{code}\" sebanyak batas maksimal",
+    en: "You have already used coupon \"{code}\" the maximum number of times",
+  },
+
+  // ✅ TRANSAKSI
+  "transaction.created": {
+    id: "Transaksi berhasil dibuat",
+    en: "Transaction created successfully",
+  },
+  "transaction.quoted": {
+    id: "Rincian harga berhasil dihitung",
+    en: "Price quote calculated successfully",
+  },
+  "transaction.list_fetched": {
+    id: "Daftar transaksi berhasil diambil",
+    en: "Get all transactions successfully",
+  },
+  "transaction.my_list_fetched": {
+    id: "Daftar transaksi Anda berhasil diambil",
+    en: "Get my transactions successfully",
+  },
+  "transaction.detail_fetched": {
+    id: "Detail transaksi berhasil diambil",
+    en: "Get transaction detail successfully",
+  },
+  "transaction.statistics_fetched": {
+    id: "Statistik transaksi berhasil diambil",
+    en: "Get transaction statistics successfully",
+  },
+  "transaction.not_found": {
+    id: "Transaksi tidak ditemukan",
+    en: "Transaction not found",
+  },
+  "transaction.status_updated": {
+    id: "Status transaksi berhasil diubah",
+    en: "Transaction status updated successfully",
+  },
+  "transaction.invalid_status_transition": {
+    id: "Status transaksi tidak dapat diubah dari {from} ke {to}",
+    en: "Cannot change transaction status from {from} to {to}",
+  },
+  "transaction.cancelled": {
+    id: "Transaksi berhasil dibatalkan, stok sudah dikembalikan",
+    en: "Transaction cancelled, stock has been restored",
+  },
+  "transaction.status_change_forbidden": {
+    id: "Anda tidak boleh mengubah status transaksi ini menjadi {to}",
+    en: "You are not allowed to change this transaction status to {to}",
+  },
+
+  // ✅ ANALITIK
+  "analytics.sales_fetched": {
+    id: "Berhasil mengambil analitik penjualan",
+    en: "Sales analytics fetched successfully",
+  },
+  "analytics.genres_fetched": {
+    id: "Berhasil mengambil analitik penjualan per genre",
+    en: "Genre sales analytics fetched successfully",
+  },
+  "analytics.books_fetched": {
+    id: "Berhasil mengambil analitik penjualan per buku",
+    en: "Book sales analytics fetched successfully",
+  },
+
+  // ✅ REPORT
+  "report.best_sellers_fetched": {
+    id: "Berhasil mengambil report buku terlaris",
+    en: "Best-seller report fetched successfully",
+  },
+  "report.slow_movers_fetched": {
+    id: "Berhasil mengambil report buku yang tidak laku",
+    en: "Slow-mover report fetched successfully",
+  },
+  "report.repeat_customers_fetched": {
+    id: "Berhasil mengambil report customer yang berbelanja lagi",
+    en: "Repeat-customer report fetched successfully",
+  },
+  "report.customer_lifetime_value_fetched": {
+    id: "Berhasil mengambil report customer lifetime value",
+    en: "Customer lifetime value report fetched successfully",
+  },
+  "report.cohort_retention_fetched": {
+    id: "Berhasil mengambil report retensi cohort",
+    en: "Cohort retention report fetched successfully",
+  },
+
+  // ✅ REFUND
+  "refund.created": {
+    id: "Refund berhasil dibuat",
+    en: "Refund created successfully",
+  },
+  "refund.nothing_to_refund": {
+    id: "Semua item pada transaksi ini sudah di-refund",
+    en: "All items in this transaction have already been refunded",
+  },
+  "refund.item_not_found": {
+    id: "Item {order_item_id} tidak ada pada transaksi ini",
+    en: "Item {order_item_id} is not part of this transaction",
+  },
+  "refund.quantity_exceeded": {
+    id: "Jumlah refund melebihi sisa yang dapat di-refund ({refundable})",
+    en: "Refund quantity exceeds the refundable quantity ({refundable})",
+  },
+
+  // ✅ INVOICE
+  "invoice.not_available": {
+    id: "Invoice belum tersedia untuk transaksi berstatus {status}",
+    en: "An invoice is not available for a transaction with status {status}",
+  },
+  "invoice.title": {
+    id: "Faktur",
+    en: "Invoice",
+  },
+  "invoice.number": {
+    id: "No. Faktur",
+    en: "Invoice No.",
+  },
+  "invoice.issued_at": {
+    id: "Tanggal Faktur",
+    en: "Invoice Date",
+  },
+  "invoice.order_date": {
+    id: "Tanggal Pesanan",
+    en: "Order Date",
+  },
+  "invoice.transaction": {
+    id: "ID Transaksi",
+    en: "Transaction ID",
+  },
+  "invoice.tax_id": {
+    id: "NPWP: {tax_id}",
+    en: "Tax ID: {tax_id}",
+  },
+  "invoice.bill_to": {
+    id: "Ditagihkan kepada",
+    en: "Bill to",
+  },
+  "invoice.ship_to": {
+    id: "Dikirim ke",
+    en: "Ship to",
+  },
+  "invoice.no": {
+    id: "No",
+    en: "No",
+  },
+  "invoice.item": {
+    id: "Buku",
+    en: "Item",
+  },
+  "invoice.quantity": {
+    id: "Jumlah",
+    en: "Qty",
+  },
+  "invoice.unit_price": {
+    id: "Harga Satuan",
+    en: "Unit Price",
+  },
+  "invoice.amount": {
+    id: "Total Harga",
+    en: "Amount",
+  },
+  "invoice.subtotal": {
+    id: "Subtotal",
+    en: "Subtotal",
+  },
+  "invoice.discount": {
+    id: "Diskon",
+    en: "Discount",
+  },
+  "invoice.tax": {
+    id: "PPN {rate}%",
+    en: "VAT {rate}%",
+  },
+  "invoice.tax_included": {
+    id: "PPN {rate}% (sudah termasuk)",
+    en: "VAT {rate}% (included)",
+  },
+  "invoice.shipping": {
+    id: "Ongkos Kirim",
+    en: "Shipping",
+  },
+  "invoice.total": {
+    id: "Total",
+    en: "Total",
+  },
+  "invoice.refunded": {
+    id: "Dikembalikan",
+    en: "Refunded",
+  },
+  "invoice.thank_you": {
+    id: "Terima kasih telah berbelanja",
+    en: "Thank you for your purchase",
+  },
+
+  // ✅ PEMBAYARAN
+  "payment.created": {
+    id: "Pembayaran berhasil dibuat, silakan selesaikan pembayaran",
+    en: "Payment created, please complete the payment",
+  },
+  "payment.list_fetched": {
+    id: "Daftar pembayaran berhasil diambil",
+    en: "Payments fetched successfully",
+  },
+  "payment.captured": {
+    id: "Pembayaran berhasil di-capture",
+    en: "Payment captured successfully",
+  },
+  "payment.webhook_received": {
+    id: "Webhook diterima",
+    en: "Webhook received",
+  },
+  "payment.simulated": {
+    id: "Simulasi pembayaran dikirim",
+    en: "Payment simulation sent",
+  },
+  "payment.not_found": {
+    id: "Pembayaran tidak ditemukan",
+    en: "Payment not found",
+  },
+  "payment.order_not_payable": {
+    id: "Transaksi berstatus {status} tidak bisa dibayar",
+    en: "A transaction with status {status} cannot be paid",
+  },
+  "payment.order_expired": {
+    id: "Batas waktu pembayaran transaksi ini sudah lewat",
+    en: "The payment deadline for this transaction has passed",
+  },
+  "payment.in_progress": {
+    id: "Transaksi ini masih punya pembayaran yang sedang berjalan",
+    en: "This transaction already has a payment in progress",
+  },
+  "payment.not_capturable": {
+    id: "Pembayaran berstatus {status} tidak bisa di-capture",
+    en: "A payment with status {status} cannot be captured",
+  },
+  "payment.unknown_provider": {
+    id: "Payment gateway tidak dikenal",
+    en: "Unknown payment gateway",
+  },
+  "payment.invalid_signature": {
+    id: "Signature webhook tidak valid atau sudah kadaluarsa",
+    en: "Invalid or expired webhook signature",
+  },
+  "payment.invalid_webhook": {
+    id: "Isi webhook tidak valid",
+    en: "Invalid webhook payload",
+  },
+  "payment.mock_disabled": {
+    id: "Mock payment gateway tidak aktif",
+    en: "The mock payment gateway is not enabled",
+  },
+
+  // ✅ PENGIRIMAN
+  "shipment.created": {
+    id: "Pengiriman berhasil dicatat",
+    en: "Shipment recorded successfully",
+  },
+  "shipment.updated": {
+    id: "Pengiriman berhasil diubah",
+    en: "Shipment updated successfully",
+  },
+  "shipment.not_found": {
+    id: "Pengiriman tidak ditemukan",
+    en: "Shipment not found",
+  },
+  "shipment.order_not_shippable": {
+    id: "Transaksi berstatus {status} tidak bisa dikirim",
+    en: "A transaction with status {status} cannot be shipped",
+  },
+
+  // ✅ USER (admin)
+  "user.list_fetched": {
+    id: "Daftar user berhasil diambil",
+    en: "Get users successfully",
+  },
+  "user.detail_fetched": {
+    id: "Detail user berhasil diambil",
+    en: "Get user detail successfully",
+  },
+  "user.not_found": {
+    id: "User tidak ditemukan",
+    en: "User not found",
+  },
+  "user.cannot_change_own_status": {
+    id: "Anda tidak dapat mengubah status akun Anda sendiri",
+    en: "You cannot change the status of your own account",
+  },
+  "user.cannot_change_own_role": {
+    id: "Anda tidak dapat mengubah role Anda sendiri",
+    en: "You cannot change your own role",
+  },
+  "user.disabled": {
+    id: "User berhasil dinonaktifkan",
+    en: "User disabled successfully",
+  },
+  "user.enabled": {
+    id: "User berhasil diaktifkan",
+    en: "User enabled successfully",
+  },
+  "user.role_updated": {
+    id: "Role user berhasil diubah",
+    en: "User role updated successfully",
+  },
+  "user.password_reset_forced": {
+    id: "Reset password dipaksakan, link reset sudah dikirim ke user",
+    en: "Password reset forced, reset link has been sent to the user",
+  },
+
+  // ✅ AUTH
+  "auth.registered": {
+    id: "Registrasi berhasil",
+    en: "User registered successfully",
+  },
+  "auth.email_registered": {
+    id: "Email sudah terdaftar",
+    en: "Email already registered",
+  },
+  "auth.too_many_login_attempts": {
+    id: "Terlalu banyak percobaan login. Silakan coba lagi nanti.",
+    en: "Too many login attempts. Please try again later.",
+  },
+  "auth.invalid_credentials": {
+    id: "Email atau password salah",
+    en: "Invalid credentials",
+  },
+  "auth.account_disabled": {
+    id: "Akun dinonaktifkan",
+    en: "Account is disabled",
+  },
+  "auth.login_success": {
+    id: "Login berhasil",
+    en: "Login successful",
+  },
+  "auth.profile_fetched": {
+    id: "Profil berhasil diambil",
+    en: "Profile fetched successfully",
+  },
+  "auth.token_refreshed": {
+    id: "Token berhasil diperbarui",
+    en: "Token refreshed successfully",
+  },
+  "auth.logged_out": {
+    id: "Logout berhasil",
+    en: "Logged out successfully",
+  },
+  "auth.logged_out_all": {
+    id: "Berhasil logout dari semua sesi",
+    en: "Logged out from all sessions",
+  },
+  "auth.invalid_or_expired_token": {
+    id: "Token tidak valid atau sudah kadaluarsa",
+    en: "Invalid or expired token",
+  },
+  "auth.email_verified": {
+    id: "Email berhasil diverifikasi",
+    en: "Email verified successfully",
+  },
+  "auth.email_already_verified": {
+    id: "Email sudah diverifikasi",
+    en: "Email already verified",
+  },
+  "auth.verification_sent": {
+    id: "Email verifikasi sudah dikirim",
+    en: "Verification email sent",
+  },
+  "auth.password_reset_sent": {
+    id: "Jika email terdaftar, link reset password sudah dikirim",
+    en: "If the email is registered, a password reset link has been sent",
+  },
+  "auth.password_reset": {
+    id: "Password berhasil direset",
+    en: "Password has been reset successfully",
+  },
+  "auth.header_required": {
+    id: "Header Authorization dengan Bearer token atau header X-API-Key wajib diisi",
+    en: "Authorization header with Bearer token or X-API-Key header required",
+  },
+  "auth.token_expired": {
+    id: "Token sudah kadaluarsa",
+    en: "Token expired",
+  },
+  "auth.invalid_token": {
+    id: "Token tidak valid",
+    en: "Invalid token",
+  },
+  "auth.email_not_verified": {
+    id: "Silakan verifikasi alamat email Anda terlebih dahulu",
+    en: "Please verify your email address first",
+  },
+
+  // ✅ SESSION
+  "session.list_fetched": {
+    id: "Daftar sesi berhasil diambil",
+    en: "Sessions fetched successfully",
+  },
+  "session.not_found": {
+    id: "Sesi tidak ditemukan",
+    en: "Session not found",
+  },
+  "session.revoked": {
+    id: "Sesi berhasil dicabut",
+    en: "Session revoked successfully",
+  },
+  "session.revoked_or_expired": {
+    id: "Sesi sudah kadaluarsa atau dicabut",
+    en: "Session expired or revoked",
+  },
+  "session.inactive": {
+    id: "Sesi sudah dicabut",
+    en: "Session has been revoked",
+  },
+  "session.invalid_refresh_token": {
+    id: "Refresh token tidak valid",
+    en: "Invalid refresh token",
+  },
+  "session.refresh_token_reused": {
+    id: "Refresh token dipakai ulang, sesi dicabut",
+    en: "Refresh token reuse detected, session revoked",
+  },
+  "session.api_key_not_allowed": {
+    id: "Endpoint ini tidak dapat diakses dengan API key",
+    en: "This endpoint cannot be accessed with an API key",
+  },
+
+  // ✅ PROFIL
+  "profile.updated": {
+    id: "Profil berhasil diupdate",
+    en: "Profile updated successfully",
+  },
+  "profile.updated_verify_email": {
+    id: "Profil berhasil diupdate, silakan verifikasi alamat email baru Anda",
+    en: "Profile updated, please verify your new email address",
+  },
+  "profile.current_password_incorrect": {
+    id: "Password saat ini salah",
+    en: "Current password is incorrect",
+  },
+  "profile.password_changed": {
+    id: "Password berhasil diubah",
+    en: "Password changed successfully",
+  },
+  "profile.deleted": {
+    id: "Akun berhasil dihapus",
+    en: "Account deleted successfully",
+  },
+
+  // ✅ API KEY
+  "api_key.list_fetched": {
+    id: "Daftar API key berhasil diambil",
+    en: "API keys fetched successfully",
+  },
+  "api_key.invalid_scopes": {
+    id: "Scope tidak valid: {scopes}",
+    en: "Invalid scopes: {scopes}",
+  },
+  "api_key.created": {
+    id: "API key berhasil dibuat. Simpan sekarang, key tidak akan ditampilkan lagi",
+    en: "API key created successfully. Store it now, it will not be shown again",
+  },
+  "api_key.not_found": {
+    id: "API key tidak ditemukan",
+    en: "API key not found",
+  },
+  "api_key.revoked": {
+    id: "API key berhasil dicabut",
+    en: "API key revoked successfully",
+  },
+  "api_key.invalid": {
+    id: "API key tidak valid atau sudah kadaluarsa",
+    en: "Invalid or expired API key",
+  },
+
+  // ✅ ALAMAT
+  "address.list_fetched": {
+    id: "Daftar alamat berhasil diambil",
+    en: "Addresses fetched successfully",
+  },
+  "address.created": {
+    id: "Alamat berhasil ditambahkan",
+    en: "Address added successfully",
+  },
+  "address.updated": {
+    id: "Alamat berhasil diubah",
+    en: "Address updated successfully",
+  },
+  "address.deleted": {
+    id: "Alamat berhasil dihapus",
+    en: "Address deleted successfully",
+  },
+  "address.not_found": {
+    id: "Alamat tidak ditemukan",
+    en: "Address not found",
+  },
+
+  // ✅ LOCKOUT
+  "lockout.list_fetched": {
+    id: "Daftar percobaan login berhasil diambil",
+    en: "Login attempts fetched successfully",
+  },
+  "lockout.not_found": {
+    id: "Lockout tidak ditemukan",
+    en: "Lockout not found",
+  },
+  "lockout.cleared": {
+    id: "Lockout berhasil dihapus",
+    en: "Lockout cleared successfully",
+  },
+} satisfies Record<string, Record<Locale, string>>;
@@ -1,17 +1,34 @@
-import express, { Request, Response } from "express";
-import dotenv from "dotenv";
+// Harus paling atas: banyak modul membaca konfigurasi dari process.env saat di-import
+import "dotenv/config";
+import express, { Request, Response, NextFunction } from "express";
+
+import { requestId } from "../middlewares/request-id.middleware";
+import { requestLogger } from "../middlewares/logger.middleware";
+import { errorHandler } from "../middlewares/error.middleware";
+import { AppError, ErrorCode } from "./utils/errors";
+import { HttpResponse } from "./utils/response";
 
 import authRoutes from "./auth/auth.routes";
 import bookRoutes from "./routes/book.routes";
 import genreRoutes from "./routes/genre.routes";
 import transactionRoutes from "./routes/transaction.route";  // ✅ PASTIKAN INI ADA
-
-dotenv.config();
+import userRoutes from "./routes/user.routes";
+import cartRoutes from "./routes/cart.routes";
+import couponRoutes from "./routes/coupon.routes";
+import analyticsRoutes from "./routes/analytics.routes";
+import reportRoutes from "./routes/report.routes";
+import paymentRoutes from "./routes/payment.routes";
+import { startOrderExpiryJob } from "./services/order-expiry.service";
+import { startPaymentActionJob } from "./services/payment-action.service";
 
 const app = express();
 const PORT = process.env.PORT || 8080;
 
 // Middleware
+app.use(requestId);
+app.use(requestLogger);
+// Webhook payment butuh body mentah untuk cek signature, jadi sebelum express.json()
+app.use("/payments", paymentRoutes);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -20,11 +37,7 @@ app.get("/health-check", (_req: Request, res: Response) => {
   const currentDate = new Date();
   const formattedDate = currentDate.toDateString();
 
-  res.status(200).json({
-    success: true,
-    message: "Hello World!",
-    date: formattedDate,
-  });
+  HttpResponse.ok(res, "common.hello", undefined, { date: formattedDate });
 });
 
 // Routes
@@ -32,26 +45,53 @@ app.use("/auth", authRoutes);
 app.use("/books", bookRoutes);
 app.use("/genre", genreRoutes);
 app.use("/transactions", transactionRoutes);  // ✅ PASTIKAN INI ADA
+app.use("/users", userRoutes);
+app.use("/cart", cartRoutes);
+app.use("/coupons", couponRoutes);
+app.use("/analytics", analyticsRoutes);
+app.use("/reports", reportRoutes);
 
 // 404 Handler
-app.use((_req: Request, res: Response) => {
-  res.status(404).json({
-    success: false,
-    message: "Route not found",
-  });
+app.use((_req: Request, _res: Response, next: NextFunction) => {
+  next(new AppError(404, ErrorCode.ROUTE_NOT_FOUND, "error.route_not_found"));
 });
 
+// Global Error Handler (harus paling akhir)
+app.use(errorHandler);
+
 // Start Server
 app.listen(PORT, () => {
+  startOrderExpiryJob();
+  startPaymentActionJob();
+
   console.log(`🚀 Server running at http://localhost:${PORT}`);
   console.log(`📚 IT Literature Shop - Backend API`);
   console.log(`\n📋 Available Routes:`);
   console.log(`   - POST   /auth/register`);
   console.log(`   - POST   /auth/login`);
   console.log(`   - GET    /auth/me`);
+  console.log(`   - POST   /auth/refresh`);
+  console.log(`   - POST   /auth/logout`);
+  console.log(`   - POST   /auth/logout-all`);
+  console.log(`   - GET    /auth/sessions`);
   console.log(`   - POST   /transactions  ✅`);  // ✅ PASTIKAN INI MUNCUL
   console.log(`   - GET    /transactions  ✅`);
+  console.log(`   - GET    /transactions/me`);
+  console.log(`   - POST   /transactions/quote`);
   console.log(`   - GET    /transactions/statistics  ✅`);
+  console.log(`   - GET    /transactions/:id/invoice`);
+  console.log(`   - PATCH  /transactions/:id/status`);
+  console.log(`   - POST   /transactions/:id/cancel`);
+  console.log(`   - POST   /transactions/:id/refunds`);
+  console.log(`   - POST   /transactions/:id/payments`);
+  console.log(`   - POST   /transactions/:id/shipments`);
+  console.log(`   - POST   /payments/webhook/:provider`);
+  console.log(`   - GET    /auth/me/addresses`);
+  console.log(`   - GET    /cart`);
+  console.log(`   - POST   /cart/checkout`);
+  console.log(`   - GET    /coupons/report`);
+  console.log(`   - GET    /analytics/sales`);
+  console.log(`   - GET    /reports/best-sellers`);
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import type { InvoiceView } from './invoice.view';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Semua teks di invoice (judul buku, alamat) berasal dari input user
+const escapeHtml = (value: string | number): string =>
+  String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+const block = (lines: string[]): string => lines.map(escapeHtml).join('<br>');
+
+const STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #222; margin: 40px; font-size: 14px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; }
+  h1 { margin: 0 0 4px; font-size: 22px; }
+  h2 { margin: 0; font-size: 28px; letter-spacing: 2px; text-align: right; }
+  .muted { color: #666; }
+  .meta td { padding: 1px 0 1px 12px; text-align: right; }
+  .parties { display: flex; gap: 48px; margin: 32px 0; }
+  .parties h3 { margin: 0 0 4px; font-size: 12px; text-transform: uppercase; color: #666; }
+  table.items { width: 100%; border-collapse: collapse; }
+  table.items th { text-align: left; border-bottom: 2px solid #222; padding: 6px; }
+  table.items td { border-bottom: 1px solid #ddd; padding: 6px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  table.totals { margin: 16px 0 0 auto; border-collapse: collapse; }
+  table.totals td { padding: 4px 6px; }
+  table.totals .emphasis td { font-weight: bold; border-top: 2px solid #222; }
+  footer { margin-top: 48px; text-align: center; }
+`;
+
+export const renderInvoiceHtml = (view: InvoiceView): string => `<!DOCTYPE html>
+<html lang="${view.locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(view.title)} ${escapeHtml(view.number)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${escapeHtml(view.shop.name)}</h1>
+    <div class="muted">${block(view.shop.lines)}</div>
+  </div>
+  <div>
+    <h2>${escapeHtml(view.title)}</h2>
+    <table class="meta">
+${view.meta.map((row) => `      <tr><td class="muted">${escapeHtml(row.label)}</td><td>${escapeHtml(row.value)}</td></tr>`).join('\n')}
+    </table>
+  </div>
+</header>
+<section class="parties">
+  <div>
+    <h3>${escapeHtml(view.bill_to.label)}</h3>
+    ${block(view.bill_to.lines)}
+  </div>
+${view.ship_to ? `  <div>
+    <h3>${escapeHtml(view.ship_to.label)}</h3>
+    ${block(view.ship_to.lines)}
+  </div>
+` : ''}</section>
+<table class="items">
+  <thead>
+    <tr>
+      <th>${escapeHtml(view.columns.no)}</th>
+      <th>${escapeHtml(view.columns.item)}</th>
+      <th class="num">${escapeHtml(view.columns.quantity)}</th>
+      <th class="num">${escapeHtml(view.columns.unit_price)}</th>
+      <th class="num">${escapeHtml(view.columns.amount)}</th>
+    </tr>
+  </thead>
+  <tbody>
+${view.lines.map((line) => `    <tr>
+      <td>${line.no}</td>
+      <td>${escapeHtml(line.title)}<br><span class="muted">${escapeHtml(line.genre)}</span></td>
+      <td class="num">${line.quantity}</td>
+      <td class="num">${escapeHtml(line.unit_price)}</td>
+      <td class="num">${escapeHtml(line.amount)}</td>
+    </tr>`).join('\n')}
+  </tbody>
+</table>
+<table class="totals">
+${view.totals.map((total) => `  <tr${total.emphasis ? ' class="emphasis"' : ''}><td>${escapeHtml(total.label)}</td><td class="num">${escapeHtml(total.value)}</td></tr>`).join('\n')}
+</table>
+<footer class="muted">${escapeHtml(view.footer)}</footer>
+</body>
+</html>
+`;
@@ -0,0 +1,108 @@
+import { A4, PdfDocument, textWidth } from './pdf-document';
+import type { InvoiceView } from './invoice.view';
+
+const MARGIN = 50;
+const RIGHT = A4.width - MARGIN;
+const BOTTOM = 70;
+const LINE = 14;
+
+// Posisi kolom tabel item (x kiri untuk teks, x kanan untuk angka)
+const COLUMNS = { no: MARGIN, item: MARGIN + 28, quantity: 350, unit_price: 445, amount: RIGHT };
+const ITEM_WIDTH = COLUMNS.quantity - 40 - COLUMNS.item;
+
+// Potong teks panjang (judul buku) supaya tidak menabrak kolom berikutnya
+const fit = (text: string, width: number, size: number): string => {
+  if (textWidth(text, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && textWidth(`${cut}...`, size) > width) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut.trimEnd()}...`;
+};
+
+export const renderInvoicePdf = (view: InvoiceView): Buffer => {
+  const pdf = new PdfDocument();
+  let y = A4.height - MARGIN;
+
+  const tableHeader = () => {
+    pdf.text(COLUMNS.no, y, view.columns.no, { weight: 'bold' });
+    pdf.text(COLUMNS.item, y, view.columns.item, { weight: 'bold' });
+    pdf.text(COLUMNS.quantity, y, view.columns.quantity, { weight: 'bold', align: 'right' });
+    pdf.text(COLUMNS.unit_price, y, view.columns.unit_price, { weight: 'bold', align: 'right' });
+    pdf.text(COLUMNS.amount, y, view.columns.amount, { weight: 'bold', align: 'right' });
+    pdf.line(MARGIN, y - 5, RIGHT, y - 5, 1);
+    y -= LINE + 6;
+  };
+
+  // Halaman baru kalau sisa ruang tidak cukup; nomor invoice diulang di atasnya
+  const ensureSpace = (height: number, repeatHeader: boolean) => {
+    if (y - height >= BOTTOM) return;
+    pdf.addPage();
+    y = A4.height - MARGIN;
+    pdf.text(MARGIN, y, `${view.title} ${view.number}`, { size: 9 });
+    y -= LINE * 2;
+    if (repeatHeader) tableHeader();
+  };
+
+  // Header: toko di kiri, judul & info invoice di kanan
+  pdf.text(MARGIN, y, view.shop.name, { size: 16, weight: 'bold' });
+  pdf.text(RIGHT, y, view.title.toUpperCase(), { size: 20, weight: 'bold', align: 'right' });
+  let left = y - 20;
+  for (const line of view.shop.lines) {
+    pdf.text(MARGIN, left, line, { size: 9 });
+    left -= 12;
+  }
+  let right = y - 24;
+  for (const row of view.meta) {
+    pdf.text(RIGHT - 150, right, row.label, { size: 9, align: 'right' });
+    pdf.text(RIGHT, right, row.value, { size: 9, align: 'right' });
+    right -= 12;
+  }
+  y = Math.min(left, right) - 20;
+
+  // Ditagihkan & dikirim ke
+  const parties = [view.bill_to, view.ship_to].filter((party) => party !== null);
+  let partiesBottom = y;
+  parties.forEach((party, index) => {
+    const x = MARGIN + index * 250;
+    let line = y;
+    pdf.text(x, line, party.label.toUpperCase(), { size: 8, weight: 'bold' });
+    line -= 13;
+    for (const text of party.lines) {
+      pdf.text(x, line, text, { size: 10 });
+      line -= 13;
+    }
+    partiesBottom = Math.min(partiesBottom, line);
+  });
+  y = partiesBottom - 16;
+
+  tableHeader();
+  for (const item of view.lines) {
+    ensureSpace(LINE * 2 + 4, true);
+    pdf.text(COLUMNS.no, y, String(item.no));
+    pdf.text(COLUMNS.item, y, fit(item.title, ITEM_WIDTH, 10));
+    pdf.text(COLUMNS.quantity, y, String(item.quantity), { align: 'right' });
+    pdf.text(COLUMNS.unit_price, y, item.unit_price, { align: 'right' });
+    pdf.text(COLUMNS.amount, y, item.amount, { align: 'right' });
+    pdf.text(COLUMNS.item, y - 11, fit(item.genre, ITEM_WIDTH, 8), { size: 8 });
+    pdf.line(MARGIN, y - 17, RIGHT, y - 17, 0.3);
+    y -= LINE * 2 + 4;
+  }
+
+  y -= 6;
+  ensureSpace(view.totals.length * (LINE + 2) + LINE * 3, false);
+  for (const total of view.totals) {
+    const weight = total.emphasis ? 'bold' : 'regular';
+    if (total.emphasis) {
+      pdf.line(COLUMNS.unit_price - 120, y + LINE - 2, RIGHT, y + LINE - 2, 1);
+    }
+    pdf.text(COLUMNS.unit_price, y, total.label, { weight, align: 'right' });
+    pdf.text(RIGHT, y, total.value, { weight, align: 'right' });
+    y -= LINE + 2;
+  }
+
+  y -= LINE * 2;
+  pdf.text(A4.width / 2 - textWidth(view.footer, 10) / 2, y, view.footer);
+
+  return pdf.toBuffer();
+};
@@ -0,0 +1,136 @@
+import { Invoice } from '@prisma/client';
+import { shopConfig } from '../config/shop';
+import { Locale, MessageInput, t } from '../i18n';
+import { orderBreakdown } from '../services/order.service';
+import type { InvoiceOrder } from '../services/invoice.service';
+
+// Data invoice yang sudah diformat, dipakai bersama oleh renderer HTML & PDF
+
+export interface InvoiceLine {
+  no: number;
+  title: string;
+  genre: string;
+  quantity: number;
+  unit_price: string;
+  amount: string;
+}
+
+export interface InvoiceTotal {
+  label: string;
+  value: string;
+  emphasis?: boolean;
+}
+
+export interface InvoiceView {
+  locale: Locale;
+  title: string;
+  number: string;
+  meta: { label: string; value: string }[];
+  shop: { name: string; lines: string[] };
+  bill_to: { label: string; lines: string[] };
+  ship_to: { label: string; lines: string[] } | null;
+  columns: { no: string; item: string; quantity: string; unit_price: string; amount: string };
+  lines: InvoiceLine[];
+  totals: InvoiceTotal[];
+  footer: string;
+}
+
+const rupiah = new Intl.NumberFormat('id-ID', {
+  style: 'currency',
+  currency: 'IDR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+});
+
+export const formatRupiah = (amount: number): string => rupiah.format(amount);
+
+const DATE_LOCALES: Record<Locale, string> = { id: 'id-ID', en: 'en-GB' };
+
+const formatDate = (date: Date, locale: Locale): string =>
+  date.toLocaleDateString(DATE_LOCALES[locale], { day: 'numeric', month: 'long', year: 'numeric' });
+
+const compact = (values: (string | null | undefined)[]): string[] =>
+  values.filter((value): value is string => Boolean(value));
+
+export const buildInvoiceView = (order: InvoiceOrder, invoice: Invoice, locale: Locale): InvoiceView => {
+  const label = (message: MessageInput) => t(message, locale);
+  const breakdown = orderBreakdown(order);
+  const coupon_code = order.coupon_redemption?.coupon.code;
+  const tax_rate = new Intl.NumberFormat(DATE_LOCALES[locale]).format(breakdown.tax_rate);
+  const refunded = order.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+  const address = order.shipping_address;
+
+  const totals: InvoiceTotal[] = [{ label: label('invoice.subtotal'), value: formatRupiah(breakdown.subtotal) }];
+  if (breakdown.discount > 0) {
+    totals.push({
+      label: coupon_code ? `${label('invoice.discount')} (${coupon_code})` : label('invoice.discount'),
+      value: formatRupiah(-breakdown.discount),
+    });
+  }
+  if (breakdown.tax_rate > 0) {
+    totals.push({
+      label: label({
+        key: breakdown.tax_inclusive ? 'invoice.tax_included' : 'invoice.tax',
+        params: { rate: tax_rate },
+      }),
+      value: formatRupiah(breakdown.tax_amount),
+    });
+  }
+  totals.push({ label: label('invoice.shipping'), value: formatRupiah(breakdown.shipping_fee) });
+  totals.push({ label: label('invoice.total'), value: formatRupiah(breakdown.total_price), emphasis: true });
+  if (refunded > 0) {
+    totals.push({ label: label('invoice.refunded'), value: formatRupiah(-refunded) });
+  }
+
+  return {
+    locale,
+    title: label('invoice.title'),
+    number: invoice.number,
+    meta: [
+      { label: label('invoice.number'), value: invoice.number },
+      { label: label('invoice.issued_at'), value: formatDate(invoice.issued_at, locale) },
+      { label: label('invoice.order_date'), value: formatDate(order.created_at, locale) },
+      { label: label('invoice.transaction'), value: order.id },
+    ],
+    shop: {
+      name: shopConfig.name,
+      lines: compact([
+        shopConfig.address,
+        [shopConfig.phone, shopConfig.email].filter(Boolean).join(' | '),
+        shopConfig.tax_id && label({ key: 'invoice.tax_id', params: { tax_id: shopConfig.tax_id } }),
+      ]),
+    },
+    bill_to: {
+      label: label('invoice.bill_to'),
+      lines: compact([address?.recipient_name ?? order.user.username, order.user.email]),
+    },
+    ship_to: address && {
+      label: label('invoice.ship_to'),
+      lines: compact([
+        address.recipient_name,
+        address.phone,
+        address.line1,
+        address.line2,
+        `${address.city}, ${address.province} ${address.postal_code}`,
+        address.country,
+      ]),
+    },
+    columns: {
+      no: label('invoice.no'),
+      item: label('invoice.item'),
+      quantity: label('invoice.quantity'),
+      unit_price: label('invoice.unit_price'),
+      amount: label('invoice.amount'),
+    },
+    lines: order.items.map((item, index) => ({
+      no: index + 1,
+      title: item.book_title,
+      genre: item.genre_name,
+      quantity: item.quantity,
+      unit_price: formatRupiah(item.unit_price),
+      amount: formatRupiah(item.unit_price * item.quantity),
+    })),
+    totals,
+    footer: label('invoice.thank_you'),
+  };
+};
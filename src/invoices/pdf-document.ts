@@ -0,0 +1,108 @@
+// Penulis PDF minimal (teks dan garis, font standar Helvetica) untuk invoice,
+// supaya tidak perlu dependency PDF tambahan. Koordinat dalam point, (0,0)
+// di kiri bawah halaman seperti spesifikasi PDF.
+
+export const A4 = { width: 595, height: 842 };
+
+export type FontWeight = 'regular' | 'bold';
+export type TextAlign = 'left' | 'right';
+
+interface TextOptions {
+  size?: number;
+  weight?: FontWeight;
+  align?: TextAlign;
+}
+
+// Lebar karakter Helvetica (per 1000 unit) untuk karakter yang sering muncul;
+// karakter lain memakai lebar rata-rata. Cukup untuk rata kanan kolom angka.
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, ':': 278, '/': 278, '-': 333, '(': 333, ')': 333, '%': 889,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+  R: 722, p: 556, i: 222, l: 222, I: 278, j: 222, f: 278, t: 278, r: 333, m: 833, w: 722, M: 833, W: 944,
+};
+const DEFAULT_LOWER_WIDTH = 540;
+const DEFAULT_UPPER_WIDTH = 680;
+const BOLD_FACTOR = 1.06;
+
+export const textWidth = (text: string, size: number, weight: FontWeight = 'regular'): number => {
+  const units = [...text].reduce((sum, char) => {
+    const width =
+      CHAR_WIDTHS[char] ?? (char === char.toUpperCase() ? DEFAULT_UPPER_WIDTH : DEFAULT_LOWER_WIDTH);
+    return sum + width;
+  }, 0);
+  return (units / 1000) * size * (weight === 'bold' ? BOLD_FACTOR : 1);
+};
+
+// String PDF memakai WinAnsi (latin1); karakter di luar itu diganti '?'
+const pdfString = (text: string): string =>
+  text
+    .replace(/\u00a0/g, ' ')
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+const round = (value: number): string => value.toFixed(2).replace(/\.?0+$/, '');
+
+export class PdfDocument {
+  private readonly pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, { size = 10, weight = 'regular', align = 'left' }: TextOptions = {}): void {
+    const left = align === 'right' ? x - textWidth(text, size, weight) : x;
+    const font = weight === 'bold' ? 'F2' : 'F1';
+    this.current().push(
+      `BT /${font} ${round(size)} Tf ${round(left)} ${round(y)} Td (${pdfString(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current().push(`${round(width)} w ${round(x1)} ${round(y1)} m ${round(x2)} ${round(y2)} l S`);
+  }
+
+  toBuffer(): Buffer {
+    // Objek 1: catalog, 2: pages, 3-4: font, lalu pasangan page + content per halaman
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index];
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] =
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
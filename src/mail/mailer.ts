@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Menulis setiap email sebagai file JSON ke folder outbox lokal
+export class OutboxMailer implements Mailer {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${message.to.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`;
+
+    await fs.writeFile(
+      path.join(this.dir, fileName),
+      JSON.stringify({ ...message, sent_at: sentAt.toISOString() }, null, 2)
+    );
+  }
+}
+
+// Menyimpan email di memori, berguna untuk testing
+export class MemoryMailer implements Mailer {
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+}
+
+const createDefaultMailer = (): Mailer => {
+  if (process.env.MAIL_DRIVER === 'memory') {
+    return new MemoryMailer();
+  }
+  return new OutboxMailer(process.env.MAIL_OUTBOX_DIR || 'outbox');
+};
+
+let mailer: Mailer | null = null;
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createDefaultMailer();
+  }
+  return mailer;
+};
+
+// Ganti implementasi mailer (mis. SMTP) tanpa mengubah pemanggilnya
+export const setMailer = (custom: Mailer): void => {
+  mailer = custom;
+};
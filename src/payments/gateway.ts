@@ -0,0 +1,71 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentStatus } from '@prisma/client';
+import { MockPaymentGateway } from './mock.gateway';
+import { paymentConfig } from '../config/payment';
+
+export interface CreateIntentInput {
+  reference: string;
+  amount: number;
+  currency: string;
+}
+
+export interface GatewayIntent {
+  provider_ref: string;
+  status: PaymentStatus;
+  // Langkah berikutnya untuk customer, mis. URL halaman pembayaran
+  next_action: { type: string; url: string } | null;
+}
+
+// Event webhook yang sudah diverifikasi, bentuknya sama untuk semua gateway
+export interface GatewayEvent {
+  id: string;
+  type: string;
+  provider_ref: string;
+  status: PaymentStatus;
+  failure_reason: string | null;
+  payload: unknown;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+  createIntent(input: CreateIntentInput): Promise<GatewayIntent>;
+  // Tarik dana dari payment yang sudah authorized
+  capture(provider_ref: string): Promise<PaymentStatus>;
+  // Batalkan payment yang belum selesai
+  cancel(provider_ref: string): Promise<void>;
+  // idempotency_key sama untuk percobaan ulang, jadi dana tidak dikembalikan dua kali
+  refund(provider_ref: string, amount: number, idempotency_key: string): Promise<void>;
+  // Lempar error kalau signature tidak valid atau kadaluarsa
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent;
+}
+
+// Mock gateway hanya dipakai kalau PAYMENT_GATEWAY=mock
+const createDefaultGateway = (): PaymentGateway => {
+  const config = paymentConfig.gateway;
+  if (config?.driver !== 'mock') {
+    throw new Error('Payment gateway not configured (set PAYMENT_GATEWAY)');
+  }
+
+  return new MockPaymentGateway(
+    config.webhook_secret,
+    config.webhook_url || `http://localhost:${process.env.PORT || 8080}/payments/webhook/mock`
+  );
+};
+
+let gateway: PaymentGateway | null = null;
+
+// Tanpa gateway customer tidak bisa membayar online, jadi order tidak diberi batas waktu
+export const isPaymentGatewayConfigured = (): boolean =>
+  gateway !== null || paymentConfig.gateway !== null;
+
+export const getPaymentGateway = (): PaymentGateway => {
+  if (!gateway) {
+    gateway = createDefaultGateway();
+  }
+  return gateway;
+};
+
+// Ganti gateway (mis. Midtrans, Xendit) tanpa mengubah pemanggilnya
+export const setPaymentGateway = (custom: PaymentGateway): void => {
+  gateway = custom;
+};
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentStatus } from '@prisma/client';
+import type { GatewayEvent, GatewayIntent, PaymentGateway } from './gateway';
+import { signWebhook, verifyWebhookSignature } from './signature';
+import { BadRequestError, UnauthorizedError } from '../utils/errors';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+export type MockOutcome = 'succeed' | 'authorize' | 'fail' | 'delay';
+
+const EVENT_STATUSES: Record<string, PaymentStatus> = {
+  'payment.authorized': 'authorized',
+  'payment.processing': 'processing',
+  'payment.succeeded': 'succeeded',
+  'payment.failed': 'failed',
+  'payment.cancelled': 'cancelled',
+};
+
+interface MockEvent {
+  id: string;
+  type: string;
+  data: { provider_ref: string; failure_reason?: string };
+}
+
+/**
+ * Gateway lokal untuk development. Tidak menyimpan state: hasil pembayaran
+ * dipicu lewat simulate() yang mengirim webhook bertanda tangan ke
+ * webhookUrl, persis seperti gateway sungguhan.
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = 'mock';
+
+  constructor(private readonly secret: string, private readonly webhookUrl: string) {}
+
+  async createIntent(): Promise<GatewayIntent> {
+    const provider_ref = `mock_pi_${crypto.randomUUID()}`;
+    return {
+      provider_ref,
+      status: 'pending',
+      next_action: { type: 'simulate', url: `/payments/mock/${provider_ref}/simulate` },
+    };
+  }
+
+  async capture(): Promise<PaymentStatus> {
+    return 'succeeded';
+  }
+
+  async cancel(): Promise<void> {}
+
+  async refund(): Promise<void> {}
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const header = headers[MOCK_SIGNATURE_HEADER];
+    if (!verifyWebhookSignature(this.secret, Array.isArray(header) ? header[0] : header, rawBody)) {
+      throw new UnauthorizedError('payment.invalid_signature');
+    }
+
+    let event: MockEvent;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestError('payment.invalid_webhook');
+    }
+
+    const status = EVENT_STATUSES[event?.type];
+    if (!status || typeof event.id !== 'string' || typeof event.data?.provider_ref !== 'string') {
+      throw new BadRequestError('payment.invalid_webhook');
+    }
+
+    return {
+      id: event.id,
+      type: event.type,
+      provider_ref: event.data.provider_ref,
+      status,
+      failure_reason: event.data.failure_reason ?? null,
+      payload: event,
+    };
+  }
+
+  /**
+   * Simulasikan hasil pembayaran:
+   * - succeed: langsung berhasil
+   * - authorize: dana ditahan, menunggu capture oleh staff
+   * - fail: ditolak
+   * - delay: processing dulu, berhasil setelah delayMs (settlement tertunda)
+   */
+  simulate(provider_ref: string, outcome: MockOutcome, delayMs: number): string[] {
+    switch (outcome) {
+      case 'succeed':
+        this.deliver(provider_ref, 'payment.succeeded');
+        return ['payment.succeeded'];
+      case 'authorize':
+        this.deliver(provider_ref, 'payment.authorized');
+        return ['payment.authorized'];
+      case 'fail':
+        this.deliver(provider_ref, 'payment.failed', 'card_declined');
+        return ['payment.failed'];
+      case 'delay':
+        this.deliver(provider_ref, 'payment.processing');
+        setTimeout(() => this.deliver(provider_ref, 'payment.succeeded'), delayMs).unref();
+        return ['payment.processing', 'payment.succeeded'];
+    }
+  }
+
+  private deliver(provider_ref: string, type: string, failure_reason?: string): void {
+    const event: MockEvent = {
+      id: `mock_evt_${crypto.randomUUID()}`,
+      type,
+      data: { provider_ref, ...(failure_reason && { failure_reason }) },
+    };
+    const body = JSON.stringify(event);
+
+    fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [MOCK_SIGNATURE_HEADER]: signWebhook(this.secret, body),
+      },
+      body,
+    })
+      .then((response) => {
+        if (!response.ok) {
+          console.error(`❌ Mock webhook ${type} ${provider_ref}: HTTP ${response.status}`);
+        }
+      })
+      .catch((error) => console.error(`❌ Mock webhook ${type} ${provider_ref}:`, error));
+  }
+}
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+// Webhook yang timestamp-nya terlalu jauh ditolak supaya request lama tidak bisa diputar ulang
+const TOLERANCE_SECONDS = Number(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS) || 300;
+
+const hmac = (secret: string, payload: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+/**
+ * Header signature: "t=<unix detik>,v1=<hex HMAC-SHA256 dari `${t}.${body}`>"
+ */
+export const signWebhook = (
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => `t=${timestamp},v1=${hmac(secret, `${timestamp}.${body}`)}`;
+
+export const verifyWebhookSignature = (
+  secret: string,
+  header: string | undefined,
+  body: Buffer,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean => {
+  if (!header) return false;
+
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [name, ...value] = part.trim().split('=');
+      return [name, value.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(hmac(secret, `${timestamp}.${body.toString('utf8')}`));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
@@ -0,0 +1,24 @@
+// Serializer CSV (RFC 4180) untuk download report
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | Date | null | undefined;
+}
+
+// Teks yang diawali = + - @ dianggap formula oleh spreadsheet
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const cell = (value: ReturnType<CsvColumn<unknown>['value']>): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string =>
+  [
+    columns.map((column) => cell(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => cell(column.value(row))).join(',')),
+  ].join('\r\n') + '\r\n';
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  getBookAnalytics,
+  getGenreAnalytics,
+  getSalesAnalytics,
+} from "../controllers/analytics.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  bookAnalyticsSchema,
+  genreAnalyticsSchema,
+  salesAnalyticsSchema,
+} from "../validations/analytics.validation";
+
+const router = Router();
+
+// Analitik penjualan untuk staff/admin, hak akses sama dengan /transactions/statistics
+router.use(authMiddleware, requirePermission("transaction:statistics"));
+
+router.get("/sales", validate(salesAnalyticsSchema), getSalesAnalytics);
+router.get("/genres", validate(genreAnalyticsSchema), getGenreAnalytics);
+router.get("/books", validate(bookAnalyticsSchema), getBookAnalytics);
+
+export default router;
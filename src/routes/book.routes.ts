@@ -6,13 +6,23 @@ import {
   updateBook,
   deleteBook,
 } from "../controllers/book.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { idempotent } from "../../middlewares/idempotency.middleware";
+import {
+  createBookSchema,
+  getBooksSchema,
+  bookIdSchema,
+  updateBookSchema,
+} from "../validations/book.validation";
 
 const router = Router();
 
-router.post("/", createBook);
-router.get("/", getBooks);
-router.get("/:book_id", getBookDetail);
-router.patch("/:book_id", updateBook);
-router.delete("/:book_id", deleteBook);
+router.post("/", authMiddleware, requirePermission("book:write"), idempotent, validate(createBookSchema), createBook);
+router.get("/", validate(getBooksSchema), getBooks);
+router.get("/:book_id", validate(bookIdSchema), getBookDetail);
+router.patch("/:book_id", authMiddleware, requirePermission("book:write"), validate(updateBookSchema), updateBook);
+router.delete("/:book_id", authMiddleware, requirePermission("book:write"), validate(bookIdSchema), deleteBook);
 
 export default router;
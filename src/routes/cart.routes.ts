@@ -0,0 +1,33 @@
+import { Router } from "express";
+import {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  checkoutCart,
+} from "../controllers/cart.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission, requireVerifiedEmail } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { idempotent } from "../../middlewares/idempotency.middleware";
+import {
+  addCartItemSchema,
+  cartItemParamsSchema,
+  checkoutCartSchema,
+  updateCartItemSchema,
+} from "../validations/cart.validation";
+
+const router = Router();
+
+// Keranjang selalu milik user yang login
+router.use(authMiddleware, requirePermission("cart:manage"));
+
+router.get("/", getCart);
+router.delete("/", clearCart);
+router.post("/items", validate(addCartItemSchema), addCartItem);
+router.patch("/items/:book_id", validate(updateCartItemSchema), updateCartItem);
+router.delete("/items/:book_id", validate(cartItemParamsSchema), removeCartItem);
+router.post("/checkout", requirePermission("transaction:create"), requireVerifiedEmail, idempotent, validate(checkoutCartSchema), checkoutCart);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+  createCoupon,
+  getCoupons,
+  getCouponById,
+  updateCoupon,
+  deleteCoupon,
+  getCouponReport,
+} from "../controllers/coupon.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { idempotent } from "../../middlewares/idempotency.middleware";
+import {
+  couponIdSchema,
+  couponReportSchema,
+  createCouponSchema,
+  getCouponsSchema,
+  updateCouponSchema,
+} from "../validations/coupon.validation";
+
+const router = Router();
+
+// Pengelolaan kupon khusus admin; customer cukup mengirim coupon_code saat checkout
+router.use(authMiddleware, requirePermission("coupon:manage"));
+
+router.get("/report", validate(couponReportSchema), getCouponReport);
+router.post("/", idempotent, validate(createCouponSchema), createCoupon);
+router.get("/", validate(getCouponsSchema), getCoupons);
+router.get("/:id", validate(couponIdSchema), getCouponById);
+router.patch("/:id", validate(updateCouponSchema), updateCoupon);
+router.delete("/:id", validate(couponIdSchema), deleteCoupon);
+
+export default router;
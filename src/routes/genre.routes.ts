@@ -6,13 +6,22 @@ import {
   updateGenre,
   deleteGenre,
 } from "../controllers/genre.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { idempotent } from "../../middlewares/idempotency.middleware";
+import {
+  createGenreSchema,
+  genreIdSchema,
+  updateGenreSchema,
+} from "../validations/genre.validation";
 
 const router = Router();
 
-router.post("/", createGenre);
+router.post("/", authMiddleware, requirePermission("genre:write"), idempotent, validate(createGenreSchema), createGenre);
 router.get("/", getGenres);
-router.get("/:genre_id", getGenreById);  // ✅ Add this route
-router.patch("/:genre_id", updateGenre);
-router.delete("/:genre_id", deleteGenre);
+router.get("/:genre_id", validate(genreIdSchema), getGenreById);  // ✅ Add this route
+router.patch("/:genre_id", authMiddleware, requirePermission("genre:write"), validate(updateGenreSchema), updateGenre);
+router.delete("/:genre_id", authMiddleware, requirePermission("genre:write"), validate(genreIdSchema), deleteGenre);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import express, { Router } from "express";
+import { paymentWebhook, simulateMockPayment } from "../controllers/payment.controller";
+import { validate } from "../../middlewares/validate.middleware";
+import { paymentWebhookSchema, simulateMockPaymentSchema } from "../validations/payment.validation";
+import { paymentConfig } from "../config/payment";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+
+const router = Router();
+
+// Signature dihitung dari body mentah, jadi body webhook tidak di-parse sebagai JSON.
+// Router ini dipasang di src/index.ts sebelum express.json().
+router.post(
+  "/webhook/:provider",
+  express.raw({ type: "*/*", limit: "1mb" }),
+  validate(paymentWebhookSchema),
+  paymentWebhook
+);
+
+// Halaman "bayar" milik mock gateway; hanya ada kalau PAYMENT_GATEWAY=mock
+// (ditolak di production oleh config/payment) dan khusus admin
+if (paymentConfig.gateway?.driver === "mock") {
+  router.post(
+    "/mock/:provider_ref/simulate",
+    authMiddleware,
+    requirePermission("payment:simulate"),
+    express.json(),
+    validate(simulateMockPaymentSchema),
+    simulateMockPayment
+  );
+}
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import {
+  getBestSellersReport,
+  getCohortRetentionReport,
+  getCustomerLifetimeValueReport,
+  getRepeatCustomersReport,
+  getSlowMoversReport,
+} from "../controllers/report.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  bestSellersReportSchema,
+  cohortRetentionReportSchema,
+  customerLifetimeValueReportSchema,
+  repeatCustomersReportSchema,
+  slowMoversReportSchema,
+} from "../validations/report.validation";
+
+const router = Router();
+
+// Report merchandising & customer, khusus staff/admin. ?format=csv untuk download
+router.use(authMiddleware, requirePermission("report:read"));
+
+router.get("/best-sellers", validate(bestSellersReportSchema), getBestSellersReport);
+router.get("/slow-movers", validate(slowMoversReportSchema), getSlowMoversReport);
+router.get("/repeat-customers", validate(repeatCustomersReportSchema), getRepeatCustomersReport);
+router.get("/customer-lifetime-value", validate(customerLifetimeValueReportSchema), getCustomerLifetimeValueReport);
+router.get("/cohorts", validate(cohortRetentionReportSchema), getCohortRetentionReport);
+
+export default router;
@@ -1,19 +1,57 @@
 import { Router } from "express";
 import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission, requireVerifiedEmail } from "../auth/authorize.middleware";
 import {
+  cancelTransaction,
+  createRefund,
+  createShipment,
+  updateShipment,
   createTransaction, 
+  createTransactionForUser,
   getAllTransactions, 
+  getMyTransactions,
   getTransactionById, 
   getTransactionStatistics,
+  quoteTransaction,
+  updateTransactionStatus,
 } from "../controllers/transaction.controller";
+import { capturePayment, createPayment, getPayments } from "../controllers/payment.controller";
+import { getTransactionInvoice } from "../controllers/invoice.controller";
+import { validate } from "../../middlewares/validate.middleware";
+import { idempotent } from "../../middlewares/idempotency.middleware";
+import {
+  cancelTransactionSchema,
+  createRefundSchema,
+  createShipmentSchema,
+  updateShipmentSchema,
+  createTransactionSchema,
+  createTransactionForUserSchema,
+  listTransactionsSchema,
+  transactionIdSchema,
+  transactionInvoiceSchema,
+  updateTransactionStatusSchema,
+} from "../validations/transaction.validation";
+import { capturePaymentSchema, orderPaymentsSchema } from "../validations/payment.validation";
 
 const router = Router();
 
 
 
-router.get("/statistics", authMiddleware, getTransactionStatistics);
-router.post("/", authMiddleware, createTransaction);
-router.get("/", authMiddleware, getAllTransactions);
-router.get("/:id", authMiddleware, getTransactionById);
+router.get("/statistics", authMiddleware, requirePermission("transaction:statistics"), getTransactionStatistics);
+router.get("/me", authMiddleware, requirePermission("transaction:read"), validate(listTransactionsSchema), getMyTransactions);
+router.post("/", authMiddleware, requirePermission("transaction:create"), requireVerifiedEmail, idempotent, validate(createTransactionSchema), createTransaction);
+router.post("/quote", authMiddleware, requirePermission("transaction:create"), validate(createTransactionSchema), quoteTransaction);
+router.post("/on-behalf", authMiddleware, requirePermission("transaction:create_for_others"), idempotent, validate(createTransactionForUserSchema), createTransactionForUser);
+router.get("/", authMiddleware, requirePermission("transaction:read_all"), validate(listTransactionsSchema), getAllTransactions);
+router.get("/:id", authMiddleware, requirePermission("transaction:read"), validate(transactionIdSchema), getTransactionById);
+router.get("/:id/invoice", authMiddleware, requirePermission("transaction:read"), validate(transactionInvoiceSchema), getTransactionInvoice);
+router.patch("/:id/status", authMiddleware, requirePermission("transaction:read"), validate(updateTransactionStatusSchema), updateTransactionStatus);
+router.post("/:id/cancel", authMiddleware, requirePermission("transaction:read"), idempotent, validate(cancelTransactionSchema), cancelTransaction);
+router.post("/:id/refunds", authMiddleware, requirePermission("transaction:refund"), idempotent, validate(createRefundSchema), createRefund);
+router.post("/:id/payments", authMiddleware, requirePermission("transaction:read"), idempotent, validate(orderPaymentsSchema), createPayment);
+router.get("/:id/payments", authMiddleware, requirePermission("transaction:read"), validate(orderPaymentsSchema), getPayments);
+router.post("/:id/payments/:payment_id/capture", authMiddleware, requirePermission("payment:capture"), idempotent, validate(capturePaymentSchema), capturePayment);
+router.post("/:id/shipments", authMiddleware, requirePermission("shipment:manage"), idempotent, validate(createShipmentSchema), createShipment);
+router.patch("/:id/shipments/:shipment_id", authMiddleware, requirePermission("shipment:manage"), validate(updateShipmentSchema), updateShipment);
 
 export default router;
\ No newline at end of file
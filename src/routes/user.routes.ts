@@ -0,0 +1,31 @@
+import { Router } from "express";
+import {
+  getUsers,
+  getUserById,
+  disableUser,
+  enableUser,
+  updateUserRole,
+  forcePasswordReset,
+} from "../controllers/user.controller";
+import { authMiddleware } from "../auth/auth.middleware";
+import { requirePermission } from "../auth/authorize.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  getUsersSchema,
+  userIdSchema,
+  updateUserRoleSchema,
+} from "../validations/user.validation";
+
+const router = Router();
+
+// Semua route di sini khusus admin
+router.use(authMiddleware, requirePermission("user:manage"));
+
+router.get("/", validate(getUsersSchema), getUsers);
+router.get("/:id", validate(userIdSchema), getUserById);
+router.post("/:id/disable", validate(userIdSchema), disableUser);
+router.post("/:id/enable", validate(userIdSchema), enableUser);
+router.patch("/:id/role", validate(updateUserRoleSchema), updateUserRole);
+router.post("/:id/force-password-reset", validate(userIdSchema), forcePasswordReset);
+
+export default router;
@@ -0,0 +1,318 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { SOLD_STATUSES } from "./order-status.service";
+
+// Zona waktu untuk batas hari/minggu/bulan pada bucket
+export const TIMEZONE = process.env.ANALYTICS_TIMEZONE || "Asia/Jakarta";
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+export interface Period {
+  from: Date;
+  to: Date;
+}
+
+interface BreakdownOptions extends Period {
+  include_deleted: boolean;
+  limit: number;
+}
+
+interface SalesRow {
+  orders: bigint;
+  revenue: bigint;
+  refunded: bigint;
+  units_sold: bigint;
+}
+
+interface BucketRow extends SalesRow {
+  bucket: string;
+}
+
+interface BreakdownRow {
+  revenue: bigint;
+  units_sold: bigint;
+  refunded_units: bigint;
+  orders: bigint;
+}
+
+interface GenreRow extends BreakdownRow {
+  id: string | null;
+  name: string;
+  deleted_at: Date | null;
+}
+
+interface BookRow extends BreakdownRow {
+  id: string;
+  title: string;
+  writer: string;
+  deleted_at: Date | null;
+  genre_id: string | null;
+  genre_name: string;
+  genre_deleted_at: Date | null;
+}
+
+// Kolom timestamp menyimpan waktu UTC tanpa zona. Helper SQL di bawah juga
+// dipakai report.service
+export const utc = (date: Date) => Prisma.sql`(${date.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+const localTime = (date: Date) => Prisma.sql`(${date.toISOString()}::timestamptz AT TIME ZONE ${TIMEZONE}::text)`;
+export const localColumn = (column: Prisma.Sql) => Prisma.sql`(${column} AT TIME ZONE 'UTC' AT TIME ZONE ${TIMEZONE}::text)`;
+
+export const inPeriod = (column: Prisma.Sql, { from, to }: Period) =>
+  Prisma.sql`${column} >= ${utc(from)} AND ${column} < ${utc(to)}`;
+
+export const soldOrder = Prisma.sql`o."status"::text IN (${Prisma.join(SOLD_STATUSES)})`;
+
+// Genre penjualan diambil dari snapshot di order_items (genre saat dibeli),
+// bukan genre buku sekarang. Genre dicocokkan lewat nama untuk id & deleted_at;
+// genre yang sudah diganti namanya tidak punya pasangan (id null).
+const soldGenreJoin = Prisma.sql`LEFT JOIN "genres" g ON g."name" = oi."genre_name"`;
+
+// Penjualan buku/genre yang sudah dihapus ikut dihitung, kecuali diminta lain
+const deletedFilter = (include_deleted: boolean) =>
+  include_deleted ? Prisma.empty : Prisma.sql`AND b."deleted_at" IS NULL AND g."deleted_at" IS NULL`;
+
+// Periode sebelumnya dengan panjang yang sama, tepat sebelum `from`
+export const previousPeriod = ({ from, to }: Period): Period => ({
+  from: new Date(from.getTime() - (to.getTime() - from.getTime())),
+  to: from,
+});
+
+// Perubahan dalam persen (1 desimal); null kalau periode sebelumnya kosong
+const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+
+const salesMetrics = (row: SalesRow | undefined) => {
+  const orders = Number(row?.orders ?? 0);
+  const revenue = Number(row?.revenue ?? 0);
+  const refunded = Number(row?.refunded ?? 0);
+
+  return {
+    orders,
+    revenue,
+    refunded,
+    net_revenue: revenue - refunded,
+    units_sold: Number(row?.units_sold ?? 0),
+    average_order_value: orders > 0 ? Math.round(revenue / orders) : 0,
+  };
+};
+
+type SalesMetrics = ReturnType<typeof salesMetrics>;
+
+const breakdownMetrics = (row: BreakdownRow) => ({
+  revenue: Number(row.revenue),
+  units_sold: Number(row.units_sold),
+  refunded_units: Number(row.refunded_units),
+  orders: Number(row.orders),
+});
+
+const salesTotals = async (period: Period): Promise<SalesMetrics> => {
+  const rows = await prisma.$queryRaw<SalesRow[]>`
+    SELECT
+      COUNT(o."id")::bigint AS orders,
+      COALESCE(SUM(o."totalPrice"), 0)::bigint AS revenue,
+      COALESCE(SUM(i.units), 0)::bigint AS units_sold,
+      (
+        SELECT COALESCE(SUM(r."amount"), 0)::bigint
+        FROM "refunds" r
+        WHERE ${inPeriod(Prisma.sql`r."created_at"`, period)}
+      ) AS refunded
+    FROM "orders" o
+    LEFT JOIN LATERAL (
+      SELECT SUM(oi."quantity") AS units FROM "order_items" oi WHERE oi."order_id" = o."id"
+    ) i ON TRUE
+    WHERE ${soldOrder} AND ${inPeriod(Prisma.sql`o."created_at"`, period)}
+  `;
+
+  return salesMetrics(rows[0]);
+};
+
+/**
+ * Penjualan per bucket (hari/minggu/bulan, zona ANALYTICS_TIMEZONE) dalam
+ * rentang [from, to). Bucket tanpa penjualan tetap muncul dengan nilai 0.
+ * Pendapatan dihitung dari total order (setelah diskon, termasuk pajak &
+ * ongkir) pada tanggal order; refund dicatat pada tanggal refund.
+ */
+export const salesSeries = async (period: Period, interval: AnalyticsInterval) => {
+  const previous = previousPeriod(period);
+  const created_at = localColumn(Prisma.sql`o."created_at"`);
+  const refunded_at = localColumn(Prisma.sql`r."created_at"`);
+
+  const [rows, totals, previousTotals] = await Promise.all([
+    prisma.$queryRaw<BucketRow[]>`
+      WITH series AS (
+        SELECT generate_series(
+          date_trunc(${interval}::text, ${localTime(period.from)}),
+          ${localTime(period.to)} - interval '1 microsecond',
+          ${`1 ${interval}`}::interval
+        ) AS bucket
+      ),
+      sales AS (
+        SELECT
+          date_trunc(${interval}::text, ${created_at}) AS bucket,
+          COUNT(o."id") AS orders,
+          SUM(o."totalPrice") AS revenue,
+          SUM(i.units) AS units_sold
+        FROM "orders" o
+        LEFT JOIN LATERAL (
+          SELECT SUM(oi."quantity") AS units FROM "order_items" oi WHERE oi."order_id" = o."id"
+        ) i ON TRUE
+        WHERE ${soldOrder} AND ${inPeriod(Prisma.sql`o."created_at"`, period)}
+        GROUP BY 1
+      ),
+      refunded AS (
+        SELECT date_trunc(${interval}::text, ${refunded_at}) AS bucket, SUM(r."amount") AS refunded
+        FROM "refunds" r
+        WHERE ${inPeriod(Prisma.sql`r."created_at"`, period)}
+        GROUP BY 1
+      )
+      SELECT
+        to_char(series.bucket, 'YYYY-MM-DD') AS bucket,
+        COALESCE(sales.orders, 0)::bigint AS orders,
+        COALESCE(sales.revenue, 0)::bigint AS revenue,
+        COALESCE(refunded.refunded, 0)::bigint AS refunded,
+        COALESCE(sales.units_sold, 0)::bigint AS units_sold
+      FROM series
+      LEFT JOIN sales ON sales.bucket = series.bucket
+      LEFT JOIN refunded ON refunded.bucket = series.bucket
+      ORDER BY series.bucket
+    `,
+    salesTotals(period),
+    salesTotals(previous),
+  ]);
+
+  return {
+    period,
+    previous_period: previous,
+    interval,
+    timezone: TIMEZONE,
+    totals,
+    previous_totals: previousTotals,
+    change: {
+      orders: percentChange(totals.orders, previousTotals.orders),
+      revenue: percentChange(totals.revenue, previousTotals.revenue),
+      net_revenue: percentChange(totals.net_revenue, previousTotals.net_revenue),
+      units_sold: percentChange(totals.units_sold, previousTotals.units_sold),
+      average_order_value: percentChange(totals.average_order_value, previousTotals.average_order_value),
+    },
+    series: rows.map((row) => ({ bucket: row.bucket, ...salesMetrics(row) })),
+  };
+};
+
+// Pendapatan per baris item = harga satuan x jumlah (sebelum diskon order)
+const genreRows = (
+  period: Period,
+  include_deleted: boolean,
+  limit: number,
+  names?: string[]
+) => prisma.$queryRaw<GenreRow[]>`
+  SELECT
+    g."id", oi."genre_name" AS name, g."deleted_at",
+    SUM(oi."unit_price" * oi."quantity")::bigint AS revenue,
+    SUM(oi."quantity")::bigint AS units_sold,
+    SUM(oi."refunded_quantity")::bigint AS refunded_units,
+    COUNT(DISTINCT o."id")::bigint AS orders
+  FROM "order_items" oi
+  JOIN "orders" o ON o."id" = oi."order_id"
+  JOIN "books" b ON b."id" = oi."book_id"
+  ${soldGenreJoin}
+  WHERE ${soldOrder} AND ${inPeriod(Prisma.sql`o."created_at"`, period)}
+    ${deletedFilter(include_deleted)}
+    ${names ? Prisma.sql`AND oi."genre_name" IN (${Prisma.join(names)})` : Prisma.empty}
+  GROUP BY oi."genre_name", g."id"
+  ORDER BY revenue DESC, oi."genre_name" ASC
+  LIMIT ${limit}
+`;
+
+/**
+ * Genre dengan pendapatan terbesar di periode ini, dibandingkan dengan
+ * pendapatan genre yang sama di periode sebelumnya. Genre/buku yang sudah
+ * dihapus ditandai lewat deleted_at.
+ */
+export const genreBreakdown = async ({ include_deleted, limit, ...period }: BreakdownOptions) => {
+  const previous = previousPeriod(period);
+  const rows = await genreRows(period, include_deleted, limit);
+  const previousRows =
+    rows.length > 0 ? await genreRows(previous, include_deleted, rows.length, rows.map((row) => row.name)) : [];
+
+  return {
+    period,
+    previous_period: previous,
+    include_deleted,
+    genres: rows.map((row) => {
+      const metrics = breakdownMetrics(row);
+      const before = previousRows.find((entry) => entry.name === row.name);
+      const previous_revenue = before ? Number(before.revenue) : 0;
+
+      return {
+        genre: { id: row.id, name: row.name, deleted_at: row.deleted_at },
+        ...metrics,
+        previous_revenue,
+        revenue_change: percentChange(metrics.revenue, previous_revenue),
+      };
+    }),
+  };
+};
+
+const bookRows = (
+  period: Period,
+  include_deleted: boolean,
+  limit: number,
+  genre_id?: string,
+  ids?: string[]
+) => prisma.$queryRaw<BookRow[]>`
+  SELECT
+    b."id", b."title", b."writer", b."deleted_at",
+    g."id" AS genre_id, oi."genre_name", g."deleted_at" AS genre_deleted_at,
+    SUM(oi."unit_price" * oi."quantity")::bigint AS revenue,
+    SUM(oi."quantity")::bigint AS units_sold,
+    SUM(oi."refunded_quantity")::bigint AS refunded_units,
+    COUNT(DISTINCT o."id")::bigint AS orders
+  FROM "order_items" oi
+  JOIN "orders" o ON o."id" = oi."order_id"
+  JOIN "books" b ON b."id" = oi."book_id"
+  ${soldGenreJoin}
+  WHERE ${soldOrder} AND ${inPeriod(Prisma.sql`o."created_at"`, period)}
+    ${deletedFilter(include_deleted)}
+    ${genre_id ? Prisma.sql`AND g."id"::text = ${genre_id}` : Prisma.empty}
+    ${ids ? Prisma.sql`AND b."id"::text IN (${Prisma.join(ids)})` : Prisma.empty}
+  GROUP BY b."id", oi."genre_name", g."id"
+  ORDER BY revenue DESC, b."title" ASC
+  LIMIT ${limit}
+`;
+
+// Sama seperti genreBreakdown, per buku (opsional dalam satu genre). Buku yang
+// pindah genre muncul sekali per genre saat terjual.
+export const bookBreakdown = async ({
+  include_deleted,
+  limit,
+  genre_id,
+  ...period
+}: BreakdownOptions & { genre_id?: string }) => {
+  const previous = previousPeriod(period);
+  const rows = await bookRows(period, include_deleted, limit, genre_id);
+  const previousRows =
+    rows.length > 0
+      ? await bookRows(previous, include_deleted, rows.length, genre_id, rows.map((row) => row.id))
+      : [];
+
+  return {
+    period,
+    previous_period: previous,
+    include_deleted,
+    books: rows.map((row) => {
+      const metrics = breakdownMetrics(row);
+      const before = previousRows.find(
+        (entry) => entry.id === row.id && entry.genre_name === row.genre_name
+      );
+      const previous_revenue = before ? Number(before.revenue) : 0;
+
+      return {
+        book: { id: row.id, title: row.title, writer: row.writer, deleted_at: row.deleted_at },
+        genre: { id: row.genre_id, name: row.genre_name, deleted_at: row.genre_deleted_at },
+        ...metrics,
+        previous_revenue,
+        revenue_change: percentChange(metrics.revenue, previous_revenue),
+      };
+    }),
+  };
+};
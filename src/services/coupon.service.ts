@@ -0,0 +1,223 @@
+import { Coupon, Prisma } from "@prisma/client";
+import { CouponNotApplicableError, FieldError, ValidationError } from "../utils/errors";
+
+// Satu baris order untuk perhitungan diskon (amount = harga x jumlah)
+export interface CouponLine {
+  book_id: string;
+  genre_id: string;
+  amount: number;
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  discount: number;
+}
+
+type CouponRejection =
+  | "invalid_code"
+  | "not_started"
+  | "expired"
+  | "min_order_not_met"
+  | "not_applicable"
+  | "usage_limit_reached"
+  | "user_limit_reached";
+
+const rejected = (
+  code: string,
+  reason: CouponRejection,
+  params: Record<string, number> = {}
+) =>
+  new CouponNotApplicableError(reason, {
+    key: `coupon.${reason}`,
+    params: { code, ...params },
+  });
+
+// Kode kupon tidak case-sensitive, disimpan dalam huruf besar
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+// Kupon tanpa book_id/genre_id berlaku untuk semua item
+const isEligible = (coupon: Coupon, line: CouponLine): boolean => {
+  if (coupon.book_id) return line.book_id === coupon.book_id;
+  if (coupon.genre_id) return line.genre_id === coupon.genre_id;
+  return true;
+};
+
+/**
+ * Potongan dari subtotal item yang memenuhi syarat. Percentage dibulatkan ke
+ * bawah dan dibatasi max_discount, fixed tidak pernah melebihi subtotal itu.
+ */
+export const calculateDiscount = (coupon: Coupon, lines: CouponLine[]): number => {
+  const eligibleTotal = lines
+    .filter((line) => isEligible(coupon, line))
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  if (coupon.discount_type === "percentage") {
+    const discount = Math.floor((eligibleTotal * coupon.discount_value) / 100);
+    return coupon.max_discount !== null ? Math.min(discount, coupon.max_discount) : discount;
+  }
+
+  return Math.min(coupon.discount_value, eligibleTotal);
+};
+
+// Aturan yang tidak bergantung pada jumlah pemakaian: masa berlaku,
+// minimal belanja dan cakupan buku/genre
+const checkCoupon = (coupon: Coupon, lines: CouponLine[], now = new Date()): number => {
+  if (coupon.starts_at && coupon.starts_at > now) {
+    throw rejected(coupon.code, "not_started");
+  }
+  if (coupon.ends_at && coupon.ends_at <= now) {
+    throw rejected(coupon.code, "expired");
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (subtotal < coupon.min_order_total) {
+    throw rejected(coupon.code, "min_order_not_met", { min_order_total: coupon.min_order_total });
+  }
+
+  if (!lines.some((line) => isEligible(coupon, line))) {
+    throw rejected(coupon.code, "not_applicable");
+  }
+
+  return calculateDiscount(coupon, lines);
+};
+
+const findCoupon = async (client: Prisma.TransactionClient, code: string): Promise<Coupon> => {
+  const normalized = normalizeCouponCode(code);
+  const coupon = await client.coupon.findFirst({
+    where: { code: normalized, deleted_at: null },
+  });
+  if (!coupon) {
+    throw rejected(normalized, "invalid_code");
+  }
+  return coupon;
+};
+
+// Pemakaian dari order yang dibatalkan tidak dihitung
+const assertUserLimit = async (
+  client: Prisma.TransactionClient,
+  coupon: Coupon,
+  user_id: string
+): Promise<void> => {
+  if (coupon.per_user_limit === null) return;
+
+  const used = await client.couponRedemption.count({
+    where: { coupon_id: coupon.id, user_id, cancelled_at: null },
+  });
+  if (used >= coupon.per_user_limit) {
+    throw rejected(coupon.code, "user_limit_reached");
+  }
+};
+
+/**
+ * Pakai kupon untuk order baru di dalam transaksi `tx`. Cek usage_limit dan
+ * penambahan redemption_count dilakukan dalam satu UPDATE bersyarat; row
+ * kupon ter-lock sampai transaksi selesai, jadi hitungan per_user_limit
+ * sesudahnya juga aman dari checkout yang bersamaan. Baris CouponRedemption
+ * dibuat pemanggil bersama order-nya.
+ */
+export const redeemCoupon = async (
+  tx: Prisma.TransactionClient,
+  code: string,
+  user_id: string,
+  lines: CouponLine[]
+): Promise<AppliedCoupon> => {
+  const coupon = await findCoupon(tx, code);
+  const discount = checkCoupon(coupon, lines);
+
+  const { count } = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      deleted_at: null,
+      ...(coupon.usage_limit !== null && { redemption_count: { lt: coupon.usage_limit } }),
+    },
+    data: { redemption_count: { increment: 1 } },
+  });
+  if (count === 0) {
+    throw rejected(coupon.code, "usage_limit_reached");
+  }
+
+  await assertUserLimit(tx, coupon, user_id);
+
+  return { coupon, discount };
+};
+
+/**
+ * Cek kupon tanpa memakainya (quote). Batas pemakaian dibaca tanpa lock,
+ * jadi hasilnya bisa berbeda dengan saat order benar-benar dibuat.
+ */
+export const previewCoupon = async (
+  client: Prisma.TransactionClient,
+  code: string,
+  user_id: string,
+  lines: CouponLine[]
+): Promise<AppliedCoupon> => {
+  const coupon = await findCoupon(client, code);
+  const discount = checkCoupon(coupon, lines);
+
+  if (coupon.usage_limit !== null && coupon.redemption_count >= coupon.usage_limit) {
+    throw rejected(coupon.code, "usage_limit_reached");
+  }
+
+  await assertUserLimit(client, coupon, user_id);
+
+  return { coupon, discount };
+};
+
+// Order dibatalkan: pemakaian kupon tidak dihitung lagi ke batas pemakaian
+export const releaseCouponRedemption = async (
+  tx: Prisma.TransactionClient,
+  order_id: string
+): Promise<void> => {
+  const redemption = await tx.couponRedemption.findUnique({ where: { order_id } });
+  if (!redemption || redemption.cancelled_at) return;
+
+  await tx.couponRedemption.update({
+    where: { id: redemption.id },
+    data: { cancelled_at: new Date() },
+  });
+  await tx.coupon.update({
+    where: { id: redemption.coupon_id },
+    data: { redemption_count: { decrement: 1 } },
+  });
+};
+
+type CouponRules = Pick<
+  Coupon,
+  "discount_type" | "discount_value" | "genre_id" | "book_id" | "starts_at" | "ends_at"
+>;
+
+/**
+ * Aturan yang melibatkan lebih dari satu field. Dicek di controller setelah
+ * body digabung dengan data kupon lama, supaya PATCH sebagian juga tercek.
+ */
+export const assertCouponRules = (coupon: CouponRules): void => {
+  const errors: FieldError[] = [];
+
+  if (coupon.discount_type === "percentage" && coupon.discount_value > 100) {
+    errors.push({
+      field: "body.discount_value",
+      code: "percentage_too_big",
+      message: "validation.percentage_too_big",
+    });
+  }
+
+  if (coupon.starts_at && coupon.ends_at && coupon.ends_at <= coupon.starts_at) {
+    errors.push({
+      field: "body.ends_at",
+      code: "invalid_date_range",
+      message: "validation.invalid_date_range",
+    });
+  }
+
+  if (coupon.genre_id && coupon.book_id) {
+    errors.push({
+      field: "body.book_id",
+      code: "coupon_scope_conflict",
+      message: "validation.coupon_scope_conflict",
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+};
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import { IdempotencyKey, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+
+// Berapa lama response disimpan untuk diputar ulang
+const IDEMPOTENCY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+export const hashRequest = (method: string, path: string, body: unknown): string =>
+  crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ method, path, body: body ?? null }))
+    .digest("hex");
+
+/**
+ * Klaim key untuk request ini. created = false berarti key sudah dipakai
+ * request lain (sedang diproses atau sudah selesai) dan record lama
+ * dikembalikan. Key yang sudah kadaluarsa dihapus lalu diklaim ulang.
+ */
+export const claimIdempotencyKey = async (
+  scope: string,
+  key: string,
+  request_hash: string
+): Promise<{ record: IdempotencyKey; created: boolean }> => {
+  const expires_at = new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000);
+
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: { scope, key, request_hash, expires_at },
+    });
+    return { record, created: true };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { scope_key: { scope, key } },
+  });
+
+  // Sempat dihapus request lain, atau sudah kadaluarsa: klaim ulang
+  if (!existing || existing.expires_at <= new Date()) {
+    if (existing) {
+      await prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, expires_at: { lte: new Date() } },
+      });
+    }
+    return claimIdempotencyKey(scope, key, request_hash);
+  }
+
+  return { record: existing, created: false };
+};
+
+export const completeIdempotencyKey = async (
+  id: string,
+  response_status: number,
+  response_body: unknown
+): Promise<void> => {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      status: "completed",
+      response_status,
+      response_body: (response_body ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+    },
+  });
+};
+
+// Lepas key supaya request bisa dicoba lagi (server error / koneksi terputus)
+export const releaseIdempotencyKey = async (id: string): Promise<void> => {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+};
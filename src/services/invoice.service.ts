@@ -0,0 +1,69 @@
+import { Invoice, OrderStatus, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { ConflictError } from "../utils/errors";
+
+// Invoice hanya untuk order yang sudah dibayar (termasuk yang kemudian di-refund)
+const INVOICEABLE_STATUSES: OrderStatus[] = ["paid", "processing", "shipped", "delivered", "refunded"];
+
+export const invoiceInclude = {
+  user: { select: { id: true, username: true, email: true } },
+  items: { orderBy: { created_at: "asc" } },
+  refunds: true,
+  coupon_redemption: {
+    include: { coupon: { select: { code: true } } },
+  },
+  shipping_address: true,
+  invoice: true,
+} satisfies Prisma.OrderInclude;
+
+export type InvoiceOrder = Prisma.OrderGetPayload<{ include: typeof invoiceInclude }>;
+
+const invoiceNumber = (year: number, sequence: number): string =>
+  `INV/${year}/${String(sequence).padStart(6, "0")}`;
+
+/**
+ * Ambil invoice order, atau terbitkan nomor baru kalau belum ada. Baris counter
+ * tahun berjalan dikunci (FOR UPDATE) sebelum mengecek invoice yang sudah ada,
+ * jadi request paralel untuk order yang sama mendapat nomor yang sama, dan
+ * counter hanya naik kalau invoice-nya benar-benar tersimpan.
+ */
+export const issueInvoice = async (order: InvoiceOrder): Promise<Invoice> => {
+  if (order.invoice) {
+    return order.invoice;
+  }
+  if (!INVOICEABLE_STATUSES.includes(order.status)) {
+    throw new ConflictError({ key: "invoice.not_available", params: { status: order.status } });
+  }
+
+  const issued_at = new Date();
+  const year = issued_at.getFullYear();
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      INSERT INTO "invoice_sequences" ("year", "last_number", "updated_at")
+      VALUES (${year}, 0, NOW())
+      ON CONFLICT ("year") DO NOTHING
+    `;
+    await tx.$queryRaw`SELECT "year" FROM "invoice_sequences" WHERE "year" = ${year} FOR UPDATE`;
+
+    const existing = await tx.invoice.findUnique({ where: { order_id: order.id } });
+    if (existing) {
+      return existing;
+    }
+
+    const { last_number } = await tx.invoiceSequence.update({
+      where: { year },
+      data: { last_number: { increment: 1 } },
+    });
+
+    return tx.invoice.create({
+      data: {
+        order_id: order.id,
+        number: invoiceNumber(year, last_number),
+        year,
+        sequence: last_number,
+        issued_at,
+      },
+    });
+  });
+};
@@ -0,0 +1,52 @@
+import prisma from "../config/database";
+import { cancelOrder } from "./order-refund.service";
+import { InvalidStatusTransitionError } from "../utils/errors";
+
+const SWEEP_INTERVAL_SECONDS = Number(process.env.ORDER_EXPIRY_SWEEP_SECONDS) || 60;
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Batalkan order pending yang melewati batas waktu pembayaran: stok dan
+ * kupon dikembalikan, payment yang belum diproses dibatalkan. Order yang
+ * payment-nya sedang authorized/processing ditunggu sampai gateway memberi
+ * hasil akhir.
+ */
+export const expireUnpaidOrders = async (now: Date = new Date()): Promise<number> => {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: "pending",
+      expires_at: { lt: now },
+      payments: { none: { status: { in: ["authorized", "processing"] } } },
+    },
+    select: { id: true },
+    orderBy: { expires_at: "asc" },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  let expired = 0;
+  for (const { id } of orders) {
+    try {
+      await cancelOrder(id, { created_by_id: null, reason: "payment_timeout" });
+      expired++;
+    } catch (error) {
+      // Sudah dibayar/dibatalkan oleh request lain sejak query di atas
+      if (!(error instanceof InvalidStatusTransitionError)) throw error;
+    }
+  }
+
+  return expired;
+};
+
+// Dijalankan berkala dari src/index.ts; timer tidak menahan proses saat shutdown
+export const startOrderExpiryJob = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    expireUnpaidOrders()
+      .then((count) => {
+        if (count > 0) console.log(`⏰ ${count} unpaid order(s) expired`);
+      })
+      .catch((error) => console.error("❌ Order expiry:", error));
+  }, SWEEP_INTERVAL_SECONDS * 1000);
+
+  timer.unref();
+  return timer;
+};
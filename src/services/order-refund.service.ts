@@ -0,0 +1,193 @@
+import { Order, OrderItem, OrderStatus, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { assertTransition, changeOrderStatus } from "./order-status.service";
+import { releaseStock } from "./stock.service";
+import { releaseCouponRedemption } from "./coupon.service";
+import { orderBreakdown } from "./order.service";
+import { refundOrderPayment, voidOrderPayments } from "./payment.service";
+import { settlePaymentActions } from "./payment-action.service";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+export interface RefundItemInput {
+  order_item_id: string;
+  quantity: number;
+}
+
+interface RefundOptions {
+  created_by_id: string | null;
+  reason?: string;
+}
+
+interface CancelOptions extends RefundOptions {
+  expected_from?: OrderStatus;
+}
+
+// Order yang sudah dibayar lalu dibatalkan: sisa dana dikembalikan penuh
+// lewat gateway dan dicatat sebagai Refund tanpa item (stok dikembalikan
+// oleh cancelOrder)
+const refundCancelledOrder = async (
+  tx: Prisma.TransactionClient,
+  order_id: string,
+  { created_by_id, reason }: RefundOptions
+): Promise<string | null> => {
+  const payment = await tx.payment.findFirst({ where: { order_id, status: "succeeded" } });
+  if (!payment) return null;
+
+  const amount = payment.amount - payment.refunded_amount;
+  if (amount <= 0) return null;
+
+  await tx.refund.create({ data: { order_id, amount, reason, created_by_id } });
+  return refundOrderPayment(tx, order_id, amount);
+};
+
+/**
+ * Batalkan order, kembalikan stok item yang belum di-refund dan pemakaian
+ * kuponnya dalam satu transaksi database. Pembatalan payment yang belum
+ * diproses dan pengembalian dana yang sudah dibayar dicatat di transaksi yang
+ * sama, lalu dikirim ke gateway setelah commit.
+ */
+export const cancelOrder = async (
+  order_id: string,
+  { created_by_id, reason, expected_from }: CancelOptions
+): Promise<Order> => {
+  const { order, actions } = await prisma.$transaction(async (tx) => {
+    const order = await changeOrderStatus(
+      order_id,
+      "cancelled",
+      { changed_by_id: created_by_id, note: reason, expected_from },
+      tx
+    );
+
+    const items = await tx.orderItem.findMany({ where: { order_id } });
+    for (const item of items) {
+      const remaining = item.quantity - item.refunded_quantity;
+      if (remaining > 0) {
+        await releaseStock(tx, item.book_id, remaining);
+      }
+    }
+
+    await releaseCouponRedemption(tx, order_id);
+    const voided = await voidOrderPayments(tx, order_id);
+    const refund = await refundCancelledOrder(tx, order_id, { created_by_id, reason });
+
+    return { order, actions: refund ? [...voided, refund] : voided };
+  });
+
+  await settlePaymentActions(actions);
+  return order;
+};
+
+// Diskon kupon dan pajak exclusive dibagi proporsional ke semua item,
+// ongkos kirim tidak ikut di-refund. Dibulatkan ke bawah supaya total refund
+// tidak melebihi yang dibayar.
+const refundAmount = (order: Order & { items: OrderItem[] }, amount: number): number => {
+  const { subtotal, total_price, shipping_fee } = orderBreakdown(order);
+  const paidForItems = total_price - shipping_fee;
+  if (paidForItems === subtotal) return amount;
+
+  return Math.floor((amount * paidForItems) / subtotal);
+};
+
+/**
+ * Refund sebagian (per OrderItem) atau penuh (tanpa items = semua sisa item).
+ * Stok dikembalikan dan pengembalian dana dicatat di transaksi yang sama;
+ * dana dikirim lewat gateway setelah commit. Kalau semua item sudah
+ * di-refund, status order otomatis menjadi refunded.
+ */
+export const refundOrder = async (
+  order_id: string,
+  items: RefundItemInput[] | undefined,
+  { created_by_id, reason }: RefundOptions
+) => {
+  const { action, ...result } = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: order_id },
+      include: { items: true },
+    });
+    if (!order) {
+      throw new NotFoundError("transaction.not_found");
+    }
+
+    // Refund hanya untuk order yang sudah dibayar (yang boleh menjadi refunded)
+    assertTransition(order.status, "refunded");
+
+    const requested =
+      items ??
+      order.items
+        .map((item) => ({
+          order_item_id: item.id,
+          quantity: item.quantity - item.refunded_quantity,
+        }))
+        .filter((item) => item.quantity > 0);
+
+    if (requested.length === 0) {
+      throw new ConflictError("refund.nothing_to_refund");
+    }
+
+    const refundItems: Prisma.RefundItemCreateWithoutRefundInput[] = [];
+
+    for (const { order_item_id, quantity } of requested) {
+      const item = order.items.find((orderItem) => orderItem.id === order_item_id);
+      if (!item) {
+        throw new NotFoundError({ key: "refund.item_not_found", params: { order_item_id } });
+      }
+
+      // Syarat di where mencegah total refund melebihi jumlah yang dibeli,
+      // termasuk saat ada dua refund yang berjalan bersamaan
+      const { count } = await tx.orderItem.updateMany({
+        where: { id: item.id, refunded_quantity: { lte: item.quantity - quantity } },
+        data: { refunded_quantity: { increment: quantity } },
+      });
+      if (count === 0) {
+        throw new ConflictError(
+          {
+            key: "refund.quantity_exceeded",
+            params: { refundable: item.quantity - item.refunded_quantity },
+          },
+          { order_item_id, requested: quantity, refundable: item.quantity - item.refunded_quantity }
+        );
+      }
+
+      await releaseStock(tx, item.book_id, quantity);
+
+      refundItems.push({
+        order_item: { connect: { id: item.id } },
+        quantity,
+        amount: refundAmount(order, item.unit_price * quantity),
+      });
+    }
+
+    const refund = await tx.refund.create({
+      data: {
+        order_id,
+        amount: refundItems.reduce((sum, item) => sum + item.amount, 0),
+        reason,
+        created_by_id,
+        items: { create: refundItems },
+      },
+      include: { items: true },
+    });
+
+    const action = await refundOrderPayment(tx, order_id, refund.amount);
+
+    const orderItems = await tx.orderItem.findMany({ where: { order_id } });
+    const fullyRefunded = orderItems.every((item) => item.refunded_quantity >= item.quantity);
+
+    if (fullyRefunded) {
+      await changeOrderStatus(
+        order_id,
+        "refunded",
+        { changed_by_id: created_by_id, note: reason },
+        tx
+      );
+    }
+
+    const status: OrderStatus = fullyRefunded ? "refunded" : order.status;
+    return { refund, status, action };
+  });
+
+  if (action) {
+    await settlePaymentActions([action]);
+  }
+  return result;
+};
@@ -0,0 +1,90 @@
+import { Order, OrderStatus, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { InvalidStatusTransitionError, NotFoundError } from "../utils/errors";
+
+// State machine status order. cancelled & refunded adalah status akhir.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "cancelled", "refunded"],
+  processing: ["shipped", "cancelled", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+// Order yang pernah dibayar. Pending & cancelled bukan penjualan; order yang
+// kemudian di-refund tetap dihitung, refund-nya dicatat terpisah
+export const SOLD_STATUSES: OrderStatus[] = ["paid", "processing", "shipped", "delivered", "refunded"];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export const assertTransition = (from: OrderStatus, to: OrderStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to, ORDER_STATUS_TRANSITIONS[from]);
+  }
+};
+
+interface ChangeStatusOptions {
+  changed_by_id: string | null; // null = perubahan oleh sistem (mis. order kadaluarsa)
+  note?: string;
+  // Status awal yang disyaratkan, mis. pemilik order hanya boleh membatalkan
+  // order yang masih pending
+  expected_from?: OrderStatus;
+}
+
+/**
+ * Ubah status order sekaligus mencatat riwayatnya dalam satu transaksi
+ * (pakai `tx` kalau dipanggil dari transaksi yang sudah berjalan). Update
+ * memakai status lama sebagai syarat, jadi dua request yang bersamaan tidak
+ * bisa sama-sama lolos.
+ */
+export const changeOrderStatus = async (
+  order_id: string,
+  to: OrderStatus,
+  options: ChangeStatusOptions,
+  tx?: Prisma.TransactionClient
+): Promise<Order> => {
+  if (!tx) {
+    return prisma.$transaction((client) => changeOrderStatus(order_id, to, options, client));
+  }
+
+  const { changed_by_id, note, expected_from } = options;
+  const order = await tx.order.findUnique({ where: { id: order_id } });
+  if (!order) {
+    throw new NotFoundError("transaction.not_found");
+  }
+
+  if (expected_from && order.status !== expected_from) {
+    throw new InvalidStatusTransitionError(order.status, to, ORDER_STATUS_TRANSITIONS[order.status]);
+  }
+  assertTransition(order.status, to);
+
+  const { count } = await tx.order.updateMany({
+    where: { id: order_id, status: expected_from ?? order.status },
+    data: { status: to },
+  });
+
+  // Status sudah diubah request lain di antara findUnique dan updateMany
+  if (count === 0) {
+    const current = await tx.order.findUniqueOrThrow({ where: { id: order_id } });
+    throw new InvalidStatusTransitionError(
+      current.status,
+      to,
+      ORDER_STATUS_TRANSITIONS[current.status]
+    );
+  }
+
+  await tx.orderStatusHistory.create({
+    data: {
+      order_id,
+      from_status: order.status,
+      to_status: to,
+      changed_by_id,
+      note,
+    },
+  });
+
+  return { ...order, status: to };
+};
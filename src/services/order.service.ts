@@ -0,0 +1,220 @@
+import { Order, OrderAddress, OrderItem, Prisma } from "@prisma/client";
+import { checkStock, ReservedItem, reserveStock, StockRequest } from "./stock.service";
+import { previewCoupon, redeemCoupon } from "./coupon.service";
+import { PriceBreakdown, priceOrder } from "./pricing.service";
+import { paymentDeadline } from "./payment.service";
+import { NotFoundError } from "../utils/errors";
+
+const userSummary = {
+  select: { id: true, username: true, email: true },
+} satisfies Prisma.UserDefaultArgs;
+
+export const createdOrderInclude = {
+  user: userSummary,
+  created_by: userSummary,
+  items: {
+    include: { book: true },
+  },
+  coupon_redemption: {
+    include: { coupon: { select: { code: true } } },
+  },
+  shipping_address: true,
+} satisfies Prisma.OrderInclude;
+
+export type CreatedOrder = Prisma.OrderGetPayload<{ include: typeof createdOrderInclude }>;
+
+interface QuoteOrderInput {
+  owner_id: string;
+  items: StockRequest[];
+  coupon_code?: string;
+}
+
+interface CreateOrderInput extends QuoteOrderInput {
+  actor_id: string;
+  address_id?: string;
+}
+
+/**
+ * Alamat tujuan order: address_id milik pemilik order, atau alamat default-nya
+ * kalau address_id tidak dikirim. Order tanpa alamat tetap boleh dibuat.
+ */
+const shippingAddressSnapshot = async (
+  tx: Prisma.TransactionClient,
+  owner_id: string,
+  address_id?: string
+): Promise<Prisma.OrderAddressUncheckedCreateWithoutOrderInput | null> => {
+  const address = await tx.address.findFirst({
+    where: {
+      user_id: owner_id,
+      deleted_at: null,
+      ...(address_id ? { id: address_id } : { is_default: true }),
+    },
+  });
+
+  if (!address) {
+    if (address_id) {
+      throw new NotFoundError("address.not_found");
+    }
+    return null;
+  }
+
+  return {
+    address_id: address.id,
+    recipient_name: address.recipient_name,
+    phone: address.phone,
+    line1: address.line1,
+    line2: address.line2,
+    city: address.city,
+    province: address.province,
+    postal_code: address.postal_code,
+    country: address.country,
+  };
+};
+
+// Baris order untuk perhitungan kupon, pajak dan ongkos kirim
+const orderLines = (items: ReservedItem[]) =>
+  items.map(({ book, quantity }) => ({
+    book_id: book.id,
+    genre_id: book.genre_id,
+    quantity,
+    weight_grams: book.weight_grams,
+    amount: book.price * quantity,
+  }));
+
+/**
+ * Rincian harga tanpa membuat order (POST /transactions/quote). Stok dan
+ * kupon dicek dengan aturan yang sama seperti createOrder, tapi tidak
+ * dikurangi/dipakai.
+ */
+export const quoteOrder = async (
+  client: Prisma.TransactionClient,
+  { owner_id, items, coupon_code }: QuoteOrderInput
+) => {
+  const checked = await checkStock(client, items);
+  const lines = orderLines(checked);
+
+  const applied = coupon_code ? await previewCoupon(client, coupon_code, owner_id, lines) : null;
+
+  return {
+    items: checked.map(({ book, quantity }) => ({
+      book: {
+        id: book.id,
+        title: book.title,
+        writer: book.writer,
+        price: book.price,
+        genre: book.genre.name,
+        weight_grams: book.weight_grams,
+      },
+      quantity,
+      subtotal: book.price * quantity,
+    })),
+    coupon_code: applied?.coupon.code ?? null,
+    ...priceOrder(lines, applied?.discount ?? 0),
+  };
+};
+
+/**
+ * Reservasi stok lalu buat order berstatus pending. Dipanggil di dalam
+ * transaksi, jadi kalau ada item yang stoknya kurang semua pengurangan stok
+ * ikut di-rollback, begitu juga pemakaian kupon. Dipakai POST /transactions
+ * dan POST /cart/checkout.
+ */
+export const createOrder = async (
+  tx: Prisma.TransactionClient,
+  { owner_id, actor_id, items, coupon_code, address_id }: CreateOrderInput
+): Promise<CreatedOrder> => {
+  const address = await shippingAddressSnapshot(tx, owner_id, address_id);
+  const reserved = await reserveStock(tx, items);
+  const lines = orderLines(reserved);
+
+  // Batas pemakaian kupon dihitung per pemilik order, bukan per staff yang memesankan
+  const applied = coupon_code ? await redeemCoupon(tx, coupon_code, owner_id, lines) : null;
+  const price = priceOrder(lines, applied?.discount ?? 0);
+
+  return tx.order.create({
+    data: {
+      user_id: owner_id,
+      created_by_id: actor_id,
+      discount: price.discount,
+      tax_rate: price.tax_rate,
+      tax_inclusive: price.tax_inclusive,
+      tax_amount: price.tax_amount,
+      shipping_fee: price.shipping_fee,
+      totalPrice: price.total_price,
+      expires_at: paymentDeadline(),
+      items: {
+        create: reserved.map(({ book, quantity }) => ({
+          book_id: book.id,
+          quantity,
+          unit_price: book.price,
+          book_title: book.title,
+          genre_name: book.genre.name,
+        })),
+      },
+      status_history: {
+        create: { to_status: "pending", changed_by_id: actor_id },
+      },
+      ...(applied && {
+        coupon_redemption: {
+          create: { coupon_id: applied.coupon.id, user_id: owner_id, discount: price.discount },
+        },
+      }),
+      ...(address && { shipping_address: { create: address } }),
+    },
+    include: createdOrderInclude,
+  });
+};
+
+// Rincian harga yang tersimpan di order, bentuknya sama dengan hasil quote
+export const orderBreakdown = (order: Order & { items: OrderItem[] }): PriceBreakdown => {
+  const subtotal = order.items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0);
+
+  return {
+    subtotal,
+    discount: order.discount,
+    tax_rate: order.tax_rate,
+    tax_inclusive: order.tax_inclusive,
+    tax_amount: order.tax_amount,
+    shipping_fee: order.shipping_fee,
+    total_price: order.totalPrice ?? subtotal - order.discount,
+  };
+};
+
+export const shippingAddressResponse = (address: OrderAddress | null) =>
+  address && {
+    recipient_name: address.recipient_name,
+    phone: address.phone,
+    line1: address.line1,
+    line2: address.line2,
+    city: address.city,
+    province: address.province,
+    postal_code: address.postal_code,
+    country: address.country,
+  };
+
+// Data response untuk order yang baru dibuat
+export const createdOrderResponse = (order: CreatedOrder) => ({
+  transaction_id: order.id,
+  user: order.user,
+  created_by: order.created_by,
+  status: order.status,
+  total_quantity: order.items.reduce((sum, item) => sum + item.quantity, 0),
+  coupon_code: order.coupon_redemption?.coupon.code ?? null,
+  ...orderBreakdown(order),
+  // Order dibatalkan otomatis kalau belum dibayar sampai waktu ini
+  expires_at: order.expires_at,
+  shipping_address: shippingAddressResponse(order.shipping_address),
+  items: order.items.map((item) => ({
+    id: item.id,
+    book: {
+      id: item.book_id,
+      title: item.book_title,
+      writer: item.book.writer,
+      price: item.unit_price,
+      genre: item.genre_name,
+    },
+    quantity: item.quantity,
+    subtotal: item.unit_price * item.quantity,
+  })),
+  created_at: order.created_at,
+});
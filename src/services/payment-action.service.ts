@@ -0,0 +1,177 @@
+import { Payment, PaymentAction, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { getPaymentGateway } from "../payments/gateway";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_INTERVAL_SECONDS = Number(process.env.PAYMENT_ACTION_RETRY_SECONDS) || 60;
+// Action yang tertahan di processing (mis. proses mati di tengah jalan) diambil ulang
+const STALE_PROCESSING_MINUTES = 5;
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * Catat pembatalan payment di transaksi `tx`; gateway baru dipanggil oleh
+ * settlePaymentActions setelah commit. Status payment diubah saat gateway
+ * berhasil, jadi kalau payment keburu sukses, alur refund_required yang
+ * mengembalikan dananya.
+ */
+export const queuePaymentCancel = async (
+  tx: Prisma.TransactionClient,
+  payment: Payment
+): Promise<string> => {
+  const action = await tx.paymentAction.create({
+    data: { payment_id: payment.id, type: "cancel" },
+  });
+  return action.id;
+};
+
+/**
+ * Catat refund di transaksi `tx`. refunded_amount langsung dinaikkan (dengan
+ * syarat tidak melebihi amount) supaya refund bersamaan tidak bisa melebihi
+ * dana yang dibayar; dana dikembalikan gateway setelah commit.
+ */
+export const queuePaymentRefund = async (
+  tx: Prisma.TransactionClient,
+  payment: Payment,
+  amount: number
+): Promise<string | null> => {
+  const { count } = await tx.payment.updateMany({
+    where: { id: payment.id, refunded_amount: { lte: payment.amount - amount } },
+    data: { refunded_amount: { increment: amount } },
+  });
+  if (count === 0) return null;
+
+  const action = await tx.paymentAction.create({
+    data: { payment_id: payment.id, type: "refund", amount },
+  });
+  return action.id;
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Payment dianggap refunded setelah semua dananya benar-benar dikembalikan gateway
+const markRefundedIfSettled = async (tx: Prisma.TransactionClient, payment: Payment) => {
+  const settled = await tx.paymentAction.aggregate({
+    where: { payment_id: payment.id, type: "refund", status: "succeeded" },
+    _sum: { amount: true },
+  });
+  if ((settled._sum.amount || 0) >= payment.amount) {
+    await tx.payment.updateMany({
+      where: { id: payment.id, status: "succeeded" },
+      data: { status: "refunded" },
+    });
+  }
+};
+
+const runAction = async (action: PaymentAction & { payment: Payment }): Promise<void> => {
+  const { payment } = action;
+  const gateway = getPaymentGateway();
+
+  if (action.type === "refund") {
+    await gateway.refund(payment.provider_ref, action.amount, action.id);
+    await prisma.$transaction(async (tx) => {
+      await tx.paymentAction.update({
+        where: { id: action.id },
+        data: { status: "succeeded", processed_at: new Date(), last_error: null },
+      });
+      await markRefundedIfSettled(tx, payment);
+    });
+    return;
+  }
+
+  await gateway.cancel(payment.provider_ref);
+  await prisma.$transaction([
+    prisma.paymentAction.update({
+      where: { id: action.id },
+      data: { status: "succeeded", processed_at: new Date(), last_error: null },
+    }),
+    prisma.payment.updateMany({
+      where: { id: payment.id, status: { in: ["pending", "authorized"] } },
+      data: { status: "cancelled" },
+    }),
+  ]);
+};
+
+// Jalankan satu action. Diklaim dulu lewat UPDATE bersyarat supaya tidak
+// dijalankan dua kali oleh request dan job retry yang bersamaan.
+const processAction = async (id: string, staleBefore?: Date): Promise<void> => {
+  const { count } = await prisma.paymentAction.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: "pending" },
+        ...(staleBefore ? [{ status: "processing" as const, updated_at: { lt: staleBefore } }] : []),
+      ],
+    },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+  if (count === 0) return;
+
+  const action = await prisma.paymentAction.findUniqueOrThrow({
+    where: { id },
+    include: { payment: true },
+  });
+
+  // Payment sudah tidak bisa dibatalkan (mis. keburu sukses); tidak dicoba ulang
+  if (action.type === "cancel" && !["pending", "authorized"].includes(action.payment.status)) {
+    await prisma.paymentAction.update({
+      where: { id },
+      data: { status: "failed", last_error: `payment already ${action.payment.status}` },
+    });
+    return;
+  }
+
+  try {
+    await runAction(action);
+  } catch (error) {
+    console.error(`❌ Payment ${action.type} ${action.payment.provider_ref}:`, error);
+    await prisma.paymentAction.update({
+      where: { id },
+      data: {
+        status: action.attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+        last_error: errorMessage(error),
+      },
+    });
+  }
+};
+
+/**
+ * Jalankan action yang baru di-commit. Tidak pernah melempar error: kegagalan
+ * gateway dicatat di last_error dan dicoba ulang oleh retryPaymentActions.
+ */
+export const settlePaymentActions = async (ids: string[]): Promise<void> => {
+  for (const id of ids) {
+    try {
+      await processAction(id);
+    } catch (error) {
+      console.error(`❌ Payment action ${id}:`, error);
+    }
+  }
+};
+
+export const retryPaymentActions = async (now: Date = new Date()): Promise<number> => {
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MINUTES * 60 * 1000);
+  const actions = await prisma.paymentAction.findMany({
+    where: {
+      OR: [{ status: "pending" }, { status: "processing", updated_at: { lt: staleBefore } }],
+    },
+    select: { id: true },
+    orderBy: { created_at: "asc" },
+    take: RETRY_BATCH_SIZE,
+  });
+
+  for (const { id } of actions) {
+    await processAction(id, staleBefore);
+  }
+  return actions.length;
+};
+
+// Dijalankan berkala dari src/index.ts; timer tidak menahan proses saat shutdown
+export const startPaymentActionJob = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    retryPaymentActions().catch((error) => console.error("❌ Payment actions:", error));
+  }, RETRY_INTERVAL_SECONDS * 1000);
+
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,260 @@
+import { IncomingHttpHeaders } from "http";
+import { Payment, PaymentStatus, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { getPaymentGateway, isPaymentGatewayConfigured } from "../payments/gateway";
+import { changeOrderStatus } from "./order-status.service";
+import { queuePaymentCancel, queuePaymentRefund, settlePaymentActions } from "./payment-action.service";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+const PAYMENT_TIMEOUT_MINUTES = Number(process.env.ORDER_PAYMENT_TIMEOUT_MINUTES) || 30;
+
+const CURRENCY = "IDR";
+
+// Transaksi yang memanggil gateway butuh waktu lebih dari default Prisma (5 detik)
+const GATEWAY_TRANSACTION_TIMEOUT_MS = 15_000;
+
+// Payment yang masih bisa berakhir sukses; order-nya belum boleh kadaluarsa
+export const ACTIVE_PAYMENT_STATUSES: PaymentStatus[] = ["pending", "authorized", "processing"];
+
+// Event webhook bisa datang terlambat atau tidak berurutan; transisi yang
+// tidak ada di sini diabaikan
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["authorized", "processing", "succeeded", "failed", "cancelled"],
+  authorized: ["processing", "succeeded", "failed", "cancelled"],
+  processing: ["succeeded", "failed"],
+  succeeded: ["refunded"],
+  failed: [],
+  cancelled: [],
+  refunded: [],
+};
+
+const allowedFrom = (to: PaymentStatus): PaymentStatus[] =>
+  (Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[]).filter((from) =>
+    PAYMENT_TRANSITIONS[from].includes(to)
+  );
+
+// Batas waktu pembayaran untuk order yang baru dibuat; null kalau pembayaran
+// online nonaktif (order menunggu ditandai paid oleh staff, tidak kadaluarsa)
+export const paymentDeadline = (from: Date = new Date()): Date | null =>
+  isPaymentGatewayConfigured()
+    ? new Date(from.getTime() + PAYMENT_TIMEOUT_MINUTES * 60 * 1000)
+    : null;
+
+const createLockedOrderPayment = async (tx: Prisma.TransactionClient, order_id: string) => {
+  await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${order_id}::uuid FOR UPDATE`;
+
+  const order = await tx.order.findUnique({
+    where: { id: order_id },
+    include: { payments: { where: { status: { in: ACTIVE_PAYMENT_STATUSES } } } },
+  });
+  if (!order) {
+    throw new NotFoundError("transaction.not_found");
+  }
+  if (order.status !== "pending") {
+    throw new ConflictError({ key: "payment.order_not_payable", params: { status: order.status } });
+  }
+  if (order.expires_at && order.expires_at <= new Date()) {
+    throw new ConflictError("payment.order_expired");
+  }
+  if (order.payments.length > 0) {
+    throw new ConflictError("payment.in_progress", { payment_id: order.payments[0].id });
+  }
+
+  const gateway = getPaymentGateway();
+  const amount = order.totalPrice ?? 0;
+  const intent = await gateway.createIntent({ reference: order.id, amount, currency: CURRENCY });
+
+  const payment = await tx.payment.create({
+    data: {
+      order_id,
+      provider: gateway.name,
+      provider_ref: intent.provider_ref,
+      amount,
+      currency: CURRENCY,
+      status: intent.status,
+    },
+  });
+
+  return { payment, next_action: intent.next_action };
+};
+
+/**
+ * Buat payment intent di gateway untuk order pending. Satu order hanya boleh
+ * punya satu payment aktif; payment baru boleh dibuat lagi setelah yang
+ * sebelumnya gagal. Baris order dikunci (FOR UPDATE) sebelum pengecekan dan
+ * pemanggilan gateway, jadi request paralel menunggu lalu melihat payment
+ * aktif dari request pertama, bukan sama-sama membuat intent.
+ */
+export const createOrderPayment = (order_id: string) =>
+  prisma.$transaction(
+    (tx) => createLockedOrderPayment(tx, order_id),
+    { timeout: GATEWAY_TRANSACTION_TIMEOUT_MS }
+  );
+
+interface ApplyStatusOptions {
+  changed_by_id: string | null;
+  failure_reason?: string | null;
+}
+
+/**
+ * Ubah status payment (UPDATE bersyarat, jadi event ganda/tidak berurutan
+ * tidak bisa menimpa status akhir). Payment yang sukses menandai order paid;
+ * kalau order-nya sudah tidak pending (kadaluarsa/dibatalkan) dananya
+ * dikembalikan penuh lewat refund yang dicatat di transaksi ini. Id action
+ * yang dikembalikan dijalankan pemanggil setelah commit.
+ */
+const applyPaymentStatus = async (
+  tx: Prisma.TransactionClient,
+  payment: Payment,
+  status: PaymentStatus,
+  { changed_by_id, failure_reason }: ApplyStatusOptions
+): Promise<{ applied: boolean; actions: string[] }> => {
+  const { count } = await tx.payment.updateMany({
+    where: { id: payment.id, status: { in: allowedFrom(status) } },
+    data: {
+      status,
+      ...(status === "succeeded" && { captured_at: new Date() }),
+      ...(status === "failed" && { failure_reason }),
+    },
+  });
+  if (count === 0) {
+    return { applied: false, actions: [] };
+  }
+
+  if (status !== "succeeded") {
+    return { applied: true, actions: [] };
+  }
+
+  const order = await tx.order.findUniqueOrThrow({ where: { id: payment.order_id } });
+  if (order.status !== "pending") {
+    const refund = await queuePaymentRefund(tx, payment, payment.amount - payment.refunded_amount);
+    return { applied: true, actions: refund ? [refund] : [] };
+  }
+
+  await changeOrderStatus(
+    order.id,
+    "paid",
+    { changed_by_id, note: `payment ${payment.provider}:${payment.provider_ref}` },
+    tx
+  );
+  return { applied: true, actions: [] };
+};
+
+// Capture manual untuk payment berstatus authorized (staff)
+export const capturePayment = async (
+  order_id: string,
+  payment_id: string,
+  changed_by_id: string
+): Promise<Payment> => {
+  const payment = await prisma.payment.findFirst({ where: { id: payment_id, order_id } });
+  if (!payment) {
+    throw new NotFoundError("payment.not_found");
+  }
+  if (payment.status !== "authorized") {
+    throw new ConflictError({ key: "payment.not_capturable", params: { status: payment.status } });
+  }
+
+  const status = await getPaymentGateway().capture(payment.provider_ref);
+  const { actions } = await prisma.$transaction((tx) =>
+    applyPaymentStatus(tx, payment, status, { changed_by_id })
+  );
+  await settlePaymentActions(actions);
+
+  return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+};
+
+/**
+ * Proses webhook dari gateway. Signature & umur event dicek oleh gateway;
+ * event_id dicatat di PaymentEvent (unik per provider) di transaksi yang sama
+ * dengan perubahan status, jadi event yang dikirim ulang hanya diproses sekali.
+ */
+export const handlePaymentWebhook = async (
+  provider: string,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders
+) => {
+  const gateway = getPaymentGateway();
+  if (gateway.name !== provider) {
+    throw new NotFoundError("payment.unknown_provider");
+  }
+
+  const event = gateway.parseWebhook(rawBody, headers);
+
+  const payment = await prisma.payment.findUnique({
+    where: { provider_provider_ref: { provider, provider_ref: event.provider_ref } },
+  });
+
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.paymentEvent.createMany({
+      data: {
+        provider,
+        event_id: event.id,
+        type: event.type,
+        payment_id: payment?.id,
+        payload: event.payload as Prisma.InputJsonValue,
+      },
+      skipDuplicates: true,
+    });
+    if (count === 0) {
+      return { duplicate: true, applied: false, actions: [] };
+    }
+    if (!payment) {
+      return { duplicate: false, applied: false, actions: [] };
+    }
+
+    const applied = await applyPaymentStatus(tx, payment, event.status, {
+      changed_by_id: null,
+      failure_reason: event.failure_reason,
+    });
+    return { duplicate: false, ...applied };
+  });
+
+  await settlePaymentActions(result.actions);
+
+  return {
+    event_id: event.id,
+    type: event.type,
+    duplicate: result.duplicate,
+    applied: result.applied,
+  };
+};
+
+// Order dibatalkan/kadaluarsa: batalkan payment yang belum diproses gateway.
+// Payment processing dibiarkan; kalau nanti sukses, dananya dikembalikan.
+// Gateway dipanggil setelah commit lewat settlePaymentActions(id yang dikembalikan).
+export const voidOrderPayments = async (
+  tx: Prisma.TransactionClient,
+  order_id: string
+): Promise<string[]> => {
+  const payments = await tx.payment.findMany({
+    where: { order_id, status: { in: ["pending", "authorized"] } },
+  });
+
+  const actions: string[] = [];
+  for (const payment of payments) {
+    actions.push(await queuePaymentCancel(tx, payment));
+  }
+  return actions;
+};
+
+/**
+ * Catat pengembalian dana untuk refund order di transaksi yang sama dengan
+ * Refund-nya. Gateway dipanggil setelah commit lewat settlePaymentActions,
+ * jadi transaksi yang di-rollback tidak pernah mengeluarkan dana. Order yang
+ * ditandai paid secara manual (tanpa payment) dilewati.
+ */
+export const refundOrderPayment = async (
+  tx: Prisma.TransactionClient,
+  order_id: string,
+  amount: number
+): Promise<string | null> => {
+  const payment = await tx.payment.findFirst({
+    where: { order_id, status: "succeeded" },
+  });
+  if (!payment) return null;
+
+  const refundable = Math.min(amount, payment.amount - payment.refunded_amount);
+  if (refundable <= 0) return null;
+
+  return queuePaymentRefund(tx, payment, refundable);
+};
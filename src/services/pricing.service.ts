@@ -0,0 +1,93 @@
+import { pricingConfig } from "../config/pricing";
+
+// Satu baris order untuk perhitungan pajak & ongkos kirim (amount = harga x jumlah)
+export interface PricingLine {
+  amount: number;
+  quantity: number;
+  weight_grams: number;
+}
+
+// Rincian harga order. Bentuk yang sama dipakai response order dan quote.
+export interface PriceBreakdown {
+  subtotal: number;
+  discount: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  tax_amount: number;
+  shipping_fee: number;
+  total_price: number;
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+// Diskon dibagi ke tiap baris sesuai porsinya, sisa pembulatan masuk ke baris terakhir
+const allocateDiscount = (amounts: number[], discount: number): number[] => {
+  const subtotal = sum(amounts);
+  if (discount === 0 || subtotal === 0) return amounts.map(() => 0);
+
+  let allocated = 0;
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) return discount - allocated;
+    const share = Math.floor((amount * discount) / subtotal);
+    allocated += share;
+    return share;
+  });
+};
+
+// Inclusive: porsi pajak yang sudah ada di dalam harga, exclusive: pajak tambahan
+const taxOf = (net: number): number => {
+  const { rate, inclusive } = pricingConfig.tax;
+  return inclusive ? net - Math.round(net / (1 + rate / 100)) : Math.round((net * rate) / 100);
+};
+
+// Pajak dihitung dari nilai setelah diskon; ongkos kirim tidak dikenai pajak
+const calculateTax = (lines: PricingLine[], discount: number): number => {
+  const amounts = lines.map((line) => line.amount);
+
+  if (pricingConfig.tax.mode === "per_item") {
+    const shares = allocateDiscount(amounts, discount);
+    return sum(amounts.map((amount, index) => taxOf(amount - shares[index])));
+  }
+
+  return taxOf(sum(amounts) - discount);
+};
+
+const calculateShipping = (lines: PricingLine[], goodsTotal: number): number => {
+  const config = pricingConfig.shipping;
+
+  if (config.free_threshold > 0 && goodsTotal >= config.free_threshold) {
+    return 0;
+  }
+
+  if (config.mode === "item_count") {
+    return config.base_fee + config.per_item_fee * sum(lines.map((line) => line.quantity));
+  }
+
+  const weight = sum(lines.map((line) => line.weight_grams * line.quantity));
+  const zone = config.weight_zones.find((candidate) => weight <= candidate.max_grams);
+  if (zone) return zone.fee;
+
+  const heaviest = config.weight_zones[config.weight_zones.length - 1];
+  return heaviest.fee + Math.ceil((weight - heaviest.max_grams) / 1000) * config.per_extra_kg_fee;
+};
+
+/**
+ * Hitung rincian harga order sesuai konfigurasi di src/config/pricing.ts.
+ * total_price = subtotal - diskon + pajak (kalau exclusive) + ongkos kirim.
+ */
+export const priceOrder = (lines: PricingLine[], discount: number): PriceBreakdown => {
+  const subtotal = sum(lines.map((line) => line.amount));
+  const goodsTotal = subtotal - discount;
+  const tax_amount = calculateTax(lines, discount);
+  const shipping_fee = calculateShipping(lines, goodsTotal);
+
+  return {
+    subtotal,
+    discount,
+    tax_rate: pricingConfig.tax.rate,
+    tax_inclusive: pricingConfig.tax.inclusive,
+    tax_amount,
+    shipping_fee,
+    total_price: goodsTotal + (pricingConfig.tax.inclusive ? 0 : tax_amount) + shipping_fee,
+  };
+};
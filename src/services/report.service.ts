@@ -0,0 +1,330 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { inPeriod, localColumn, Period, soldOrder, TIMEZONE, utc } from "./analytics.service";
+import { SOLD_STATUSES } from "./order-status.service";
+import { DAY_MS } from "../validations/common.validation";
+
+interface BestSellerRow {
+  id: string;
+  title: string;
+  writer: string;
+  stock_quantity: number;
+  deleted_at: Date | null;
+  genre_name: string;
+  units_sold: bigint;
+  revenue: bigint;
+  orders: bigint;
+}
+
+interface SlowMoverRow {
+  id: string;
+  title: string;
+  writer: string;
+  price: number;
+  stock_quantity: number;
+  created_at: Date;
+  genre_name: string;
+  last_sold_at: Date | null;
+}
+
+interface CustomerValueRow {
+  id: string;
+  username: string | null;
+  email: string;
+  signed_up_at: Date;
+  orders: bigint;
+  revenue: bigint;
+  refunded: bigint;
+  first_order_at: Date;
+  last_order_at: Date;
+}
+
+interface CustomerValueSummaryRow {
+  customers: bigint;
+  lifetime_value: bigint;
+  orders: bigint;
+}
+
+interface CohortSizeRow {
+  cohort: string;
+  customers: bigint;
+}
+
+interface CohortActivityRow {
+  cohort: string;
+  month: string;
+  active_customers: bigint;
+}
+
+// Persen dengan 1 desimal
+const percentage = (part: number, whole: number): number =>
+  whole === 0 ? 0 : Math.round((part / whole) * 1000) / 10;
+
+// Selisih bulan antara dua string "YYYY-MM"
+const monthsBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+};
+
+const currentMonth = (): string =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: TIMEZONE, year: "numeric", month: "2-digit" })
+    .format(new Date())
+    .slice(0, 7);
+
+/**
+ * Buku terlaris di periode ini berdasarkan jumlah terjual atau pendapatan
+ * (harga satuan x jumlah, sebelum diskon order). Buku yang sudah dihapus
+ * tetap muncul dengan deleted_at terisi. Genre diambil dari snapshot penjualan
+ * terakhir di periode ini, bukan genre buku sekarang.
+ */
+export const bestSellers = async ({ by, limit, ...period }: Period & { by: "units" | "revenue"; limit: number }) => {
+  const ranking = by === "units" ? Prisma.sql`units_sold DESC, revenue DESC` : Prisma.sql`revenue DESC, units_sold DESC`;
+
+  const rows = await prisma.$queryRaw<BestSellerRow[]>`
+    SELECT
+      b."id", b."title", b."writer", b."stock_quantity", b."deleted_at",
+      (ARRAY_AGG(oi."genre_name" ORDER BY o."created_at" DESC))[1] AS genre_name,
+      SUM(oi."quantity")::bigint AS units_sold,
+      SUM(oi."unit_price" * oi."quantity")::bigint AS revenue,
+      COUNT(DISTINCT o."id")::bigint AS orders
+    FROM "order_items" oi
+    JOIN "orders" o ON o."id" = oi."order_id"
+    JOIN "books" b ON b."id" = oi."book_id"
+    WHERE ${soldOrder} AND ${inPeriod(Prisma.sql`o."created_at"`, period)}
+    GROUP BY b."id"
+    ORDER BY ${ranking}, b."title" ASC
+    LIMIT ${limit}
+  `;
+
+  return {
+    period,
+    by,
+    books: rows.map((row, index) => ({
+      rank: index + 1,
+      book_id: row.id,
+      title: row.title,
+      writer: row.writer,
+      genre: row.genre_name,
+      stock_quantity: row.stock_quantity,
+      deleted_at: row.deleted_at,
+      units_sold: Number(row.units_sold),
+      revenue: Number(row.revenue),
+      orders: Number(row.orders),
+    })),
+  };
+};
+
+/**
+ * Buku aktif yang masih punya stok tapi tidak terjual sejak `days` hari lalu.
+ * Buku yang baru ditambahkan di rentang itu belum dihitung. Urutan: yang
+ * paling lama tidak terjual (atau belum pernah terjual) lebih dulu.
+ */
+export const slowMovers = async ({ days, limit }: { days: number; limit: number }) => {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const sinceUtc = utc(since);
+
+  const rows = await prisma.$queryRaw<SlowMoverRow[]>`
+    SELECT
+      b."id", b."title", b."writer", b."price", b."stock_quantity", b."created_at",
+      g."name" AS genre_name,
+      (
+        SELECT MAX(o."created_at")
+        FROM "order_items" oi
+        JOIN "orders" o ON o."id" = oi."order_id"
+        WHERE oi."book_id" = b."id" AND ${soldOrder}
+      ) AS last_sold_at
+    FROM "books" b
+    JOIN "genres" g ON g."id" = b."genre_id"
+    WHERE b."deleted_at" IS NULL
+      AND b."stock_quantity" > 0
+      AND b."created_at" < ${sinceUtc}
+      AND NOT EXISTS (
+        SELECT 1
+        FROM "order_items" oi
+        JOIN "orders" o ON o."id" = oi."order_id"
+        WHERE oi."book_id" = b."id" AND ${soldOrder} AND o."created_at" >= ${sinceUtc}
+      )
+    ORDER BY last_sold_at ASC NULLS FIRST, b."stock_quantity" DESC, b."title" ASC
+    LIMIT ${limit}
+  `;
+
+  return {
+    days,
+    since,
+    books: rows.map((row) => ({
+      book_id: row.id,
+      title: row.title,
+      writer: row.writer,
+      genre: row.genre_name,
+      price: row.price,
+      stock_quantity: row.stock_quantity,
+      stock_value: row.price * row.stock_quantity,
+      last_sold_at: row.last_sold_at,
+      added_at: row.created_at,
+    })),
+  };
+};
+
+/**
+ * Persentase customer yang berbelanja lebih dari sekali di periode ini,
+ * beserta sebaran jumlah order per customer (5 ke atas digabung).
+ */
+export const repeatCustomers = async (period: Period) => {
+  const groups = await prisma.order.groupBy({
+    by: ["user_id"],
+    where: {
+      status: { in: SOLD_STATUSES },
+      created_at: { gte: period.from, lt: period.to },
+    },
+    _count: { id: true },
+  });
+
+  const customers = groups.length;
+  const repeat_customers = groups.filter((group) => group._count.id > 1).length;
+  const orders = groups.reduce((sum, group) => sum + group._count.id, 0);
+  const repeat_orders = groups
+    .filter((group) => group._count.id > 1)
+    .reduce((sum, group) => sum + group._count.id, 0);
+
+  const distribution = [1, 2, 3, 4, 5].map((count) => {
+    const matching = groups.filter((group) =>
+      count === 5 ? group._count.id >= 5 : group._count.id === count
+    ).length;
+    return {
+      orders_per_customer: count === 5 ? "5+" : String(count),
+      customers: matching,
+      share: percentage(matching, customers),
+    };
+  });
+
+  return {
+    period,
+    customers,
+    repeat_customers,
+    repeat_rate: percentage(repeat_customers, customers),
+    orders,
+    repeat_orders,
+    repeat_order_share: percentage(repeat_orders, orders),
+    distribution,
+  };
+};
+
+/**
+ * Nilai seumur hidup customer: total belanja order yang dibayar dikurangi
+ * refund. Daftar diurutkan dari nilai terbesar; summary dihitung dari semua
+ * customer yang pernah berbelanja.
+ */
+export const customerLifetimeValue = async ({ limit }: { limit: number }) => {
+  const [rows, summary] = await Promise.all([
+    prisma.$queryRaw<CustomerValueRow[]>`
+      SELECT
+        u."id", u."username", u."email", u."created_at" AS signed_up_at,
+        COUNT(o."id")::bigint AS orders,
+        COALESCE(SUM(o."totalPrice"), 0)::bigint AS revenue,
+        COALESCE(SUM(r.refunded), 0)::bigint AS refunded,
+        MIN(o."created_at") AS first_order_at,
+        MAX(o."created_at") AS last_order_at
+      FROM "users" u
+      JOIN "orders" o ON o."user_id" = u."id" AND ${soldOrder}
+      LEFT JOIN LATERAL (
+        SELECT SUM(rf."amount") AS refunded FROM "refunds" rf WHERE rf."order_id" = o."id"
+      ) r ON TRUE
+      GROUP BY u."id"
+      ORDER BY COALESCE(SUM(o."totalPrice"), 0) - COALESCE(SUM(r.refunded), 0) DESC, u."email" ASC
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw<CustomerValueSummaryRow[]>`
+      SELECT
+        COUNT(DISTINCT o."user_id")::bigint AS customers,
+        COUNT(o."id")::bigint AS orders,
+        (COALESCE(SUM(o."totalPrice"), 0) - COALESCE(SUM(r.refunded), 0))::bigint AS lifetime_value
+      FROM "orders" o
+      LEFT JOIN LATERAL (
+        SELECT SUM(rf."amount") AS refunded FROM "refunds" rf WHERE rf."order_id" = o."id"
+      ) r ON TRUE
+      WHERE ${soldOrder}
+    `,
+  ]);
+
+  const customers = Number(summary[0]?.customers ?? 0);
+  const lifetime_value = Number(summary[0]?.lifetime_value ?? 0);
+  const orders = Number(summary[0]?.orders ?? 0);
+
+  return {
+    customers,
+    average_lifetime_value: customers > 0 ? Math.round(lifetime_value / customers) : 0,
+    average_orders_per_customer: customers > 0 ? Math.round((orders / customers) * 100) / 100 : 0,
+    top_customers: rows.map((row) => {
+      const orderCount = Number(row.orders);
+      const lifetimeValue = Number(row.revenue) - Number(row.refunded);
+      return {
+        user_id: row.id,
+        username: row.username,
+        email: row.email,
+        signed_up_at: row.signed_up_at,
+        orders: orderCount,
+        revenue: Number(row.revenue),
+        refunded: Number(row.refunded),
+        lifetime_value: lifetimeValue,
+        average_order_value: orderCount > 0 ? Math.round(lifetimeValue / orderCount) : 0,
+        first_order_at: row.first_order_at,
+        last_order_at: row.last_order_at,
+      };
+    }),
+  };
+};
+
+/**
+ * Retensi per cohort bulan daftar (zona ANALYTICS_TIMEZONE): untuk setiap
+ * bulan sejak daftar, berapa customer dari cohort itu yang berbelanja.
+ * Bulan ke-0 adalah bulan daftar itu sendiri.
+ */
+export const cohortRetention = async (period: Period) => {
+  const signed_up = localColumn(Prisma.sql`u."created_at"`);
+  const ordered = localColumn(Prisma.sql`o."created_at"`);
+  const cohortUsers = Prisma.sql`
+    SELECT u."id", to_char(date_trunc('month', ${signed_up}), 'YYYY-MM') AS cohort
+    FROM "users" u
+    WHERE u."role" = 'customer' AND ${inPeriod(Prisma.sql`u."created_at"`, period)}
+  `;
+
+  const [sizes, activity] = await Promise.all([
+    prisma.$queryRaw<CohortSizeRow[]>`
+      SELECT c.cohort, COUNT(*)::bigint AS customers
+      FROM (${cohortUsers}) c
+      GROUP BY c.cohort
+      ORDER BY c.cohort
+    `,
+    prisma.$queryRaw<CohortActivityRow[]>`
+      SELECT
+        c.cohort,
+        to_char(date_trunc('month', ${ordered}), 'YYYY-MM') AS month,
+        COUNT(DISTINCT o."user_id")::bigint AS active_customers
+      FROM (${cohortUsers}) c
+      JOIN "orders" o ON o."user_id" = c."id" AND ${soldOrder}
+      GROUP BY 1, 2
+    `,
+  ]);
+
+  const now = currentMonth();
+
+  return {
+    period,
+    timezone: TIMEZONE,
+    cohorts: sizes.map((size) => {
+      const customers = Number(size.customers);
+      const months = Array.from({ length: monthsBetween(size.cohort, now) + 1 }, (_, month_offset) => {
+        const active_customers = activity
+          .filter((row) => row.cohort === size.cohort && monthsBetween(size.cohort, row.month) === month_offset)
+          .reduce((sum, row) => sum + Number(row.active_customers), 0);
+        return {
+          month_offset,
+          active_customers,
+          retention_rate: percentage(active_customers, customers),
+        };
+      });
+      return { cohort: size.cohort, customers, months };
+    }),
+  };
+};
@@ -0,0 +1,131 @@
+import { OrderStatus, Prisma, Shipment } from "@prisma/client";
+import prisma from "../config/database";
+import { canTransition, changeOrderStatus } from "./order-status.service";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+
+export interface ShipmentInput {
+  carrier?: string;
+  tracking_number?: string | null;
+  shipped_at?: Date | null;
+  delivered_at?: Date | null;
+  note?: string | null;
+}
+
+// Pengiriman baru hanya untuk order yang sudah dibayar dan belum sampai;
+// data pengiriman masih boleh dikoreksi setelah order delivered
+const SHIPPABLE_STATUSES: OrderStatus[] = ["paid", "processing", "shipped"];
+const EDITABLE_STATUSES: OrderStatus[] = [...SHIPPABLE_STATUSES, "delivered"];
+
+// Urutan status yang diikuti order selama proses pengiriman
+const FULFILLMENT_PATH: OrderStatus[] = ["processing", "shipped", "delivered"];
+
+const assertShipmentDates = ({ shipped_at, delivered_at }: ShipmentInput): void => {
+  if (delivered_at && (!shipped_at || delivered_at < shipped_at)) {
+    throw new ValidationError([
+      {
+        field: "body.delivered_at",
+        code: "delivered_before_shipped",
+        message: "validation.delivered_before_shipped",
+      },
+    ]);
+  }
+};
+
+const findOrder = async (
+  tx: Prisma.TransactionClient,
+  order_id: string,
+  statuses: OrderStatus[]
+) => {
+  const order = await tx.order.findUnique({ where: { id: order_id } });
+  if (!order) {
+    throw new NotFoundError("transaction.not_found");
+  }
+  if (!statuses.includes(order.status)) {
+    throw new ConflictError({
+      key: "shipment.order_not_shippable",
+      params: { status: order.status },
+    });
+  }
+  return order;
+};
+
+// Ada paket = processing, ada yang sudah dikirim = shipped,
+// semua paket sudah sampai = delivered
+const fulfillmentStatus = (shipments: Shipment[]): OrderStatus => {
+  if (shipments.length > 0 && shipments.every((shipment) => shipment.delivered_at)) {
+    return "delivered";
+  }
+  if (shipments.some((shipment) => shipment.shipped_at)) {
+    return "shipped";
+  }
+  return "processing";
+};
+
+/**
+ * Majukan status order mengikuti data pengiriman, lewat transisi normal
+ * (tercatat di status_history). Status tidak pernah dimundurkan.
+ */
+const syncOrderStatus = async (
+  tx: Prisma.TransactionClient,
+  order_id: string,
+  current: OrderStatus,
+  changed_by_id: string
+): Promise<OrderStatus> => {
+  const shipments = await tx.shipment.findMany({ where: { order_id } });
+  const target = fulfillmentStatus(shipments);
+
+  let status = current;
+  for (const next of FULFILLMENT_PATH.slice(0, FULFILLMENT_PATH.indexOf(target) + 1)) {
+    if (canTransition(status, next)) {
+      await changeOrderStatus(order_id, next, { changed_by_id }, tx);
+      status = next;
+    }
+  }
+
+  return status;
+};
+
+export const createOrderShipment = (
+  order_id: string,
+  data: ShipmentInput & { carrier: string },
+  created_by_id: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const order = await findOrder(tx, order_id, SHIPPABLE_STATUSES);
+    assertShipmentDates(data);
+
+    const shipment = await tx.shipment.create({
+      data: { ...data, order_id, created_by_id },
+    });
+    const status = await syncOrderStatus(tx, order_id, order.status, created_by_id);
+
+    return { shipment, status };
+  });
+
+export const updateOrderShipment = (
+  order_id: string,
+  shipment_id: string,
+  data: ShipmentInput,
+  changed_by_id: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const order = await findOrder(tx, order_id, EDITABLE_STATUSES);
+
+    const existing = await tx.shipment.findFirst({ where: { id: shipment_id, order_id } });
+    if (!existing) {
+      throw new NotFoundError("shipment.not_found");
+    }
+
+    assertShipmentDates({
+      shipped_at: data.shipped_at !== undefined ? data.shipped_at : existing.shipped_at,
+      delivered_at: data.delivered_at !== undefined ? data.delivered_at : existing.delivered_at,
+    });
+
+    const shipment = await tx.shipment.update({
+      where: { id: shipment_id },
+      data,
+    });
+    const status = await syncOrderStatus(tx, order_id, order.status, changed_by_id);
+
+    return { shipment, status };
+  });
@@ -0,0 +1,126 @@
+import { Book, Genre, Prisma } from "@prisma/client";
+import { NotFoundError, OutOfStockError, ShortItem } from "../utils/errors";
+
+export interface StockRequest {
+  book_id: string;
+  quantity: number;
+}
+
+export interface ReservedItem {
+  book: Book & { genre: Genre };
+  quantity: number;
+}
+
+/**
+ * Kurangi stok semua item di dalam transaksi `tx`. Cek dan pengurangan stok
+ * dilakukan dalam satu UPDATE bersyarat (stock_quantity >= quantity), jadi
+ * checkout yang bersamaan tidak bisa membuat stok negatif. Kalau ada item yang
+ * stoknya kurang, semua item yang kurang dilaporkan lewat OutOfStockError dan
+ * transaksi di-rollback oleh pemanggil.
+ */
+export const reserveStock = async (
+  tx: Prisma.TransactionClient,
+  items: StockRequest[]
+): Promise<ReservedItem[]> => {
+  const reserved = new Map<string, ReservedItem>();
+  const shortItems: ShortItem[] = [];
+
+  // Row lock selalu diambil dengan urutan book_id yang sama supaya dua order
+  // dengan buku yang sama tidak saling deadlock
+  const sorted = [...items].sort((a, b) => a.book_id.localeCompare(b.book_id));
+
+  for (const item of sorted) {
+    const { count } = await tx.book.updateMany({
+      where: {
+        id: item.book_id,
+        deleted_at: null,
+        stock_quantity: { gte: item.quantity },
+      },
+      data: { stock_quantity: { decrement: item.quantity } },
+    });
+
+    const book = await tx.book.findFirst({
+      where: { id: item.book_id, deleted_at: null },
+      include: { genre: true },
+    });
+
+    if (!book) {
+      throw new NotFoundError({
+        key: "book.not_found_by_id",
+        params: { book_id: item.book_id },
+      });
+    }
+
+    if (count === 0) {
+      shortItems.push({
+        book_id: book.id,
+        title: book.title,
+        requested: item.quantity,
+        available: book.stock_quantity,
+      });
+      continue;
+    }
+
+    reserved.set(item.book_id, { book, quantity: item.quantity });
+  }
+
+  if (shortItems.length > 0) {
+    throw new OutOfStockError(shortItems);
+  }
+
+  // Kembalikan sesuai urutan item di request
+  return items.map((item) => reserved.get(item.book_id)!);
+};
+
+/**
+ * Versi baca-saja dari reserveStock untuk quote: error yang sama kalau buku
+ * tidak ada atau stoknya kurang, tapi stok tidak dikurangi
+ */
+export const checkStock = async (
+  client: Prisma.TransactionClient,
+  items: StockRequest[]
+): Promise<ReservedItem[]> => {
+  const books = await client.book.findMany({
+    where: { id: { in: items.map((item) => item.book_id) }, deleted_at: null },
+    include: { genre: true },
+  });
+  const shortItems: ShortItem[] = [];
+
+  const checked = items.map((item) => {
+    const book = books.find((candidate) => candidate.id === item.book_id);
+    if (!book) {
+      throw new NotFoundError({
+        key: "book.not_found_by_id",
+        params: { book_id: item.book_id },
+      });
+    }
+
+    if (book.stock_quantity < item.quantity) {
+      shortItems.push({
+        book_id: book.id,
+        title: book.title,
+        requested: item.quantity,
+        available: book.stock_quantity,
+      });
+    }
+
+    return { book, quantity: item.quantity };
+  });
+
+  if (shortItems.length > 0) {
+    throw new OutOfStockError(shortItems);
+  }
+
+  return checked;
+};
+
+// Kembalikan stok buku (pembatalan, refund)
+export const releaseStock = (
+  tx: Prisma.TransactionClient,
+  book_id: string,
+  quantity: number
+) =>
+  tx.book.update({
+    where: { id: book_id },
+    data: { stock_quantity: { increment: quantity } },
+  });
@@ -1,13 +1,9 @@
-import { User } from '@prisma/client';
+import { AuthUser } from '../auth/auth.middleware';
 
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        username?: string;
-      };
+      user?: AuthUser;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * Membungkus handler async supaya error yang di-throw (atau promise yang
+ * reject) diteruskan ke global errorHandler lewat next(err).
+ */
+export const asyncHandler = <Req extends Request<any, any, any, any> = Request>(
+  handler: (req: Req, res: Response, next: NextFunction) => Promise<unknown>
+) => {
+  return (req: Req, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+  };
+};
@@ -0,0 +1,21 @@
+// Cursor pagination: token opaque (base64url JSON) berisi id baris terakhir
+// di halaman sebelumnya dan nomor halaman berikutnya
+export interface PageCursor {
+  id: string;
+  page: number;
+}
+
+export const encodeCursor = (cursor: PageCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeCursor = (token: string): PageCursor | null => {
+  try {
+    const value = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (typeof value?.id === "string" && Number.isInteger(value.page) && value.page > 1) {
+      return { id: value.id, page: value.page };
+    }
+  } catch {
+    // token rusak
+  }
+  return null;
+};
@@ -0,0 +1,135 @@
+import { MessageInput, MessageKey, MessageParams, t, toMessage } from "../i18n";
+
+// Kode error yang stabil untuk client. Jangan ubah nilai yang sudah ada,
+// client bisa bergantung pada string ini.
+export const ErrorCode = {
+  BAD_REQUEST: "BAD_REQUEST",
+  INVALID_JSON: "INVALID_JSON",
+  VALIDATION_FAILED: "VALIDATION_FAILED",
+  UNAUTHORIZED: "UNAUTHORIZED",
+  FORBIDDEN: "FORBIDDEN",
+  NOT_FOUND: "NOT_FOUND",
+  ROUTE_NOT_FOUND: "ROUTE_NOT_FOUND",
+  CONFLICT: "CONFLICT",
+  OUT_OF_STOCK: "OUT_OF_STOCK",
+  COUPON_NOT_APPLICABLE: "COUPON_NOT_APPLICABLE",
+  INVALID_STATUS_TRANSITION: "INVALID_STATUS_TRANSITION",
+  TOO_MANY_REQUESTS: "TOO_MANY_REQUESTS",
+  IDEMPOTENCY_KEY_MISMATCH: "IDEMPOTENCY_KEY_MISMATCH",
+  IDEMPOTENCY_IN_PROGRESS: "IDEMPOTENCY_IN_PROGRESS",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+export interface FieldError {
+  field: string;
+  code: string;
+  message: MessageInput;
+}
+
+/**
+ * Pesan error disimpan sebagai key katalog i18n dan baru diterjemahkan saat
+ * response dikirim (HttpResponse.error). Error.message berisi versi Inggris
+ * untuk log.
+ */
+export class AppError extends Error {
+  readonly key: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: MessageInput,
+    readonly details?: unknown
+  ) {
+    super(t(message, "en"));
+    this.name = new.target.name;
+    const { key, params } = toMessage(message);
+    this.key = key;
+    this.params = params;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: MessageInput = "error.bad_request", details?: unknown) {
+    super(400, ErrorCode.BAD_REQUEST, message, details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: MessageInput = "error.unauthorized") {
+    super(401, ErrorCode.UNAUTHORIZED, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: MessageInput = "error.forbidden") {
+    super(403, ErrorCode.FORBIDDEN, message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: MessageInput = "error.not_found") {
+    super(404, ErrorCode.NOT_FOUND, message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: MessageInput = "error.conflict", details?: unknown) {
+    super(409, ErrorCode.CONFLICT, message, details);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(readonly errors: FieldError[], message: MessageInput = "error.validation_failed") {
+    super(422, ErrorCode.VALIDATION_FAILED, message, errors);
+  }
+}
+
+export interface ShortItem {
+  book_id: string;
+  title: string;
+  requested: number;
+  available: number;
+}
+
+// Satu buku: sebutkan sisa stoknya, lebih dari satu: cukup jumlah bukunya
+const outOfStockMessage = (items: ShortItem[]): MessageInput => {
+  if (items.length === 1) {
+    const [{ title, requested, available }] = items;
+    return { key: "stock.insufficient", params: { title, requested, available } };
+  }
+  return { key: "stock.insufficient_many", params: { count: items.length } };
+};
+
+export class OutOfStockError extends AppError {
+  constructor(readonly items: ShortItem[]) {
+    super(409, ErrorCode.OUT_OF_STOCK, outOfStockMessage(items), items);
+  }
+}
+
+// Kupon tidak bisa dipakai untuk order ini; reason untuk dibaca client
+// (expired, usage_limit_reached, dll), pesannya untuk ditampilkan
+export class CouponNotApplicableError extends AppError {
+  constructor(readonly reason: string, message: MessageInput) {
+    super(422, ErrorCode.COUPON_NOT_APPLICABLE, message, { reason });
+  }
+}
+
+export class InvalidStatusTransitionError extends AppError {
+  constructor(readonly from: string, readonly to: string, allowed: string[]) {
+    super(
+      409,
+      ErrorCode.INVALID_STATUS_TRANSITION,
+      { key: "transaction.invalid_status_transition", params: { from, to } },
+      { from, to, allowed }
+    );
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(readonly retryAfter: number, message: MessageInput = "error.too_many_requests") {
+    super(429, ErrorCode.TOO_MANY_REQUESTS, message, { retry_after: retryAfter });
+  }
+}
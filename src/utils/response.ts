@@ -1,21 +1,58 @@
 import { Response } from "express";
+import { MessageInput, resolveLocale, t } from "../i18n";
+import { AppError, ValidationError } from "./errors";
 
-export const HttpResponse = {
-  ok: (res: Response, message: string, data?: unknown) =>
-    res.status(200).json({ success: true, message, data }),
+type Extra = Record<string, unknown>;
+
+// Terjemahkan pesan sesuai locale request yang sedang dijawab
+export const localize = (res: Response, message: MessageInput): string => {
+  const locale = resolveLocale(res.req);
+  res.setHeader("Content-Language", locale);
+  res.vary("Accept-Language");
+  return t(message, locale);
+};
 
-  created: (res: Response, message: string, data?: unknown) =>
-    res.status(201).json({ success: true, message, data }),
+const success = (
+  res: Response,
+  status: number,
+  message: MessageInput,
+  data?: unknown,
+  extra?: Extra
+) =>
+  res.status(status).json({
+    success: true,
+    message: localize(res, message),
+    ...extra,
+    data,
+  });
 
-  badRequest: (res: Response, message: string) =>
-    res.status(400).json({ success: false, message }),
+/**
+ * Satu-satunya jalur untuk mengirim response JSON. Pesan selalu berupa key
+ * katalog i18n (src/i18n/messages.ts) dan diterjemahkan di sini.
+ * `extra` untuk field tambahan di samping data, misal pagination.
+ */
+export const HttpResponse = {
+  ok: (res: Response, message: MessageInput, data?: unknown, extra?: Extra) =>
+    success(res, 200, message, data, extra),
 
-  unauthorized: (res: Response, message = "Unauthorized") =>
-    res.status(401).json({ success: false, message }),
+  created: (res: Response, message: MessageInput, data?: unknown, extra?: Extra) =>
+    success(res, 201, message, data, extra),
 
-  notFound: (res: Response, message = "Not Found") =>
-    res.status(404).json({ success: false, message }),
+  error: (res: Response, error: AppError, extra?: Extra) => {
+    const details =
+      error instanceof ValidationError
+        ? error.errors.map((fieldError) => ({
+            ...fieldError,
+            message: localize(res, fieldError.message),
+          }))
+        : error.details;
 
-  serverError: (res: Response, message = "Internal Server Error") =>
-    res.status(500).json({ success: false, message }),
-};
\ No newline at end of file
+    return res.status(error.status).json({
+      success: false,
+      code: error.code,
+      message: localize(res, { key: error.key, params: error.params }),
+      ...(details !== undefined && { details }),
+      ...extra,
+    });
+  },
+};
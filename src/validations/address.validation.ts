@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { requiredString, uuid } from "./common.validation";
+
+const addressParams = z.object({ address_id: uuid() });
+
+const addressBody = z.object({
+  label: z.string().trim().max(50).nullish(),
+  recipient_name: requiredString().pipe(z.string().max(100)),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9 -]{6,20}$/, { message: "Invalid phone number" }),
+  line1: requiredString().pipe(z.string().max(200)),
+  line2: z.string().trim().max(200).nullish(),
+  city: requiredString().pipe(z.string().max(100)),
+  province: requiredString().pipe(z.string().max(100)),
+  postal_code: z
+    .string()
+    .trim()
+    .regex(/^[0-9A-Za-z -]{3,10}$/, { message: "Invalid postal code" }),
+  country: z.string().trim().toUpperCase().length(2).default("ID"),
+  is_default: z.boolean().optional(),
+});
+
+export const createAddressSchema = {
+  body: addressBody,
+};
+
+export const addressIdSchema = {
+  params: addressParams,
+};
+
+export const updateAddressSchema = {
+  params: addressParams,
+  body: addressBody
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided",
+      params: { code: "empty_body" },
+    }),
+};
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { DAY_MS, integer, periodQuery, periodRefinement, uuid, validPeriod, withDefaultPeriod } from "./common.validation";
+
+// Batas jumlah bucket per request, supaya ?interval=day untuk rentang
+// bertahun-tahun tidak menghasilkan response raksasa
+export const MAX_BUCKETS = 400;
+
+const BUCKET_DAYS = { day: 1, week: 7, month: 28 } as const;
+
+// ?include_deleted=false menyembunyikan penjualan buku/genre yang sudah dihapus
+const includeDeleted = z
+  .enum(["true", "false"])
+  .default("true")
+  .transform((value) => value === "true");
+
+export const salesAnalyticsSchema = {
+  query: z
+    .object({
+      ...periodQuery,
+      interval: z.enum(["day", "week", "month"]).default("day"),
+    })
+    .transform(withDefaultPeriod(30))
+    .refine(validPeriod, periodRefinement)
+    .refine(
+      (query) =>
+        (query.to.getTime() - query.from.getTime()) / DAY_MS / BUCKET_DAYS[query.interval] <= MAX_BUCKETS,
+      {
+        message: `The range may contain at most ${MAX_BUCKETS} buckets`,
+        path: ["interval"],
+        params: { code: "too_many_buckets" },
+      }
+    ),
+};
+
+export const genreAnalyticsSchema = {
+  query: z
+    .object({
+      ...periodQuery,
+      include_deleted: includeDeleted,
+      limit: integer().pipe(z.number().min(1).max(100)).default(10),
+    })
+    .transform(withDefaultPeriod(30))
+    .refine(validPeriod, periodRefinement),
+};
+
+export const bookAnalyticsSchema = {
+  query: z
+    .object({
+      ...periodQuery,
+      genre_id: uuid().optional(),
+      include_deleted: includeDeleted,
+      limit: integer().pipe(z.number().min(1).max(100)).default(10),
+    })
+    .transform(withDefaultPeriod(30))
+    .refine(validPeriod, periodRefinement),
+};
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { SUPPORTED_LOCALES } from "../i18n";
+import { integer, requiredString, uuid } from "./common.validation";
+
+// Aturan akun yang dipakai bersama oleh register, reset password dan profil
+export const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const email = () =>
+  z
+    .string()
+    .trim()
+    .refine((value) => emailRegex.test(value), {
+      message: "Invalid email format",
+      params: { code: "invalid_email" },
+    });
+
+export const password = () => z.string().min(MIN_PASSWORD_LENGTH);
+
+export const registerSchema = {
+  body: z.object({
+    username: z.string().trim().max(100).nullish(),
+    email: email(),
+    password: password(),
+  }),
+};
+
+// Format email tidak dicek saat login; email yang tidak terdaftar cukup
+// dijawab invalid_credentials
+export const loginSchema = {
+  body: z.object({
+    email: requiredString(),
+    password: z.string().min(1),
+  }),
+};
+
+export const forgotPasswordSchema = {
+  body: z.object({
+    email: requiredString(),
+  }),
+};
+
+export const refreshSchema = {
+  body: z.object({
+    refresh_token: requiredString(),
+  }),
+};
+
+// GET dari link email (query) atau POST (body)
+export const verifyEmailQuerySchema = {
+  query: z.object({
+    token: requiredString(),
+  }),
+};
+
+export const verifyEmailBodySchema = {
+  body: z.object({
+    token: requiredString(),
+  }),
+};
+
+export const resetPasswordSchema = {
+  body: z.object({
+    token: requiredString(),
+    password: password(),
+  }),
+};
+
+export const sessionIdSchema = {
+  params: z.object({ session_id: uuid() }),
+};
+
+// ✅ PROFIL
+export const updateMeSchema = {
+  body: z
+    .object({
+      // String kosong = hapus username
+      username: z.string().trim().max(100).nullish(),
+      email: email().optional(),
+      // null = hapus preferensi, kembali pakai Accept-Language
+      locale: z.enum(SUPPORTED_LOCALES).nullable().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided",
+      params: { code: "empty_body" },
+    }),
+};
+
+export const changePasswordSchema = {
+  body: z.object({
+    current_password: z.string().min(1),
+    new_password: password(),
+  }),
+};
+
+export const deleteMeSchema = {
+  body: z.object({
+    password: z.string().min(1),
+  }),
+};
+
+// ✅ API KEY (scope dicek terhadap role user di controller)
+export const createApiKeySchema = {
+  body: z.object({
+    name: requiredString().pipe(z.string().max(100)),
+    scopes: z.array(z.string().trim()).min(1),
+    expires_in_days: integer().pipe(z.number().min(1).max(3650)).nullish(),
+  }),
+};
+
+export const apiKeyIdSchema = {
+  params: z.object({ key_id: uuid() }),
+};
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { integer, paginationQuery, requiredString, uuid } from "./common.validation";
+
+const bookParams = z.object({ book_id: uuid() });
+
+const bookBody = z.object({
+  title: requiredString(),
+  writer: requiredString(),
+  publisher: requiredString(),
+  publication_year: integer().pipe(z.number().min(0).max(9999)).nullish(),
+  description: z.string().trim().nullish(),
+  price: integer().pipe(z.number().min(0)),
+  stock_quantity: integer().pipe(z.number().min(0)),
+  weight_grams: integer().pipe(z.number().min(1)).optional(),
+  genre_id: uuid(),
+});
+
+export const createBookSchema = {
+  body: bookBody,
+};
+
+export const getBooksSchema = {
+  query: z.object({
+    title: z.string().trim().optional(),
+    ...paginationQuery,
+  }),
+};
+
+export const bookIdSchema = {
+  params: bookParams,
+};
+
+export const updateBookSchema = {
+  params: bookParams,
+  body: bookBody
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided",
+      params: { code: "empty_body" },
+    }),
+};
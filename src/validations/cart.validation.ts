@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { couponCode, integer, uuid } from "./common.validation";
+
+const quantity = integer().pipe(z.number().min(1));
+
+export const addCartItemSchema = {
+  body: z.object({
+    book_id: uuid(),
+    quantity: quantity.default(1),
+  }),
+};
+
+export const updateCartItemSchema = {
+  params: z.object({ book_id: uuid() }),
+  body: z.object({
+    quantity,
+  }),
+};
+
+export const cartItemParamsSchema = {
+  params: z.object({ book_id: uuid() }),
+};
+
+export const checkoutCartSchema = {
+  body: z.object({
+    coupon_code: couponCode().optional(),
+    address_id: uuid().optional(),
+  }),
+};
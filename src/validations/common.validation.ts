@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { decodeCursor } from "../utils/cursor";
+
+// Angka dari query string / form datang sebagai string ("10"),
+// dari JSON datang sebagai number. Keduanya diterima.
+const toNumber = (value: unknown): unknown =>
+  typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))
+    ? Number(value)
+    : value;
+
+export const integer = () =>
+  z.preprocess(toNumber, z.number().int({ message: "Expected an integer" }));
+
+export const uuid = () => z.string().trim().uuid({ message: "Invalid UUID" });
+
+export const requiredString = () => z.string().trim().min(1, { message: "Must not be empty" });
+
+// Kode kupon opsional saat checkout, dinormalisasi di coupon.service
+export const couponCode = () => z.string().trim().min(1).max(64);
+
+// Token dari pagination.next_cursor response sebelumnya
+export const cursor = () =>
+  z.string().trim().transform((token, ctx) => {
+    const decoded = decodeCursor(token);
+    if (!decoded) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor", params: { code: "invalid_cursor" } });
+      return z.NEVER;
+    }
+    return decoded;
+  });
+
+export const paginationQuery = {
+  page: z.preprocess(toNumber, z.number().int().min(1)).default(1),
+  limit: z.preprocess(toNumber, z.number().int().min(1).max(100)).default(10),
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rentang tanggal [from, to) untuk analitik & report
+export const periodQuery = {
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+// Tanpa from/to: `days` hari terakhir sampai sekarang
+export const withDefaultPeriod =
+  (days: number) =>
+  <T extends { from?: Date; to?: Date }>(query: T) => {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - days * DAY_MS);
+    return { ...query, from, to };
+  };
+
+export const validPeriod = (query: { from: Date; to: Date }) => query.from < query.to;
+
+export const periodRefinement = {
+  message: "from must be before to",
+  path: ["to"],
+  params: { code: "invalid_range" },
+};
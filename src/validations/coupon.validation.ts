@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { DiscountType } from "@prisma/client";
+import { integer, paginationQuery, uuid } from "./common.validation";
+
+const couponParams = z.object({ id: uuid() });
+
+const positiveInteger = () => integer().pipe(z.number().min(1));
+
+// Aturan antar-field (persen <= 100, ends_at > starts_at, satu cakupan saja)
+// dicek di assertCouponRules setelah digabung dengan data lama
+const couponBody = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(3)
+    .max(32)
+    .regex(/^[A-Z0-9_-]+$/, { message: "Only letters, numbers, - and _ are allowed" }),
+  description: z.string().trim().max(500).nullish(),
+  discount_type: z.nativeEnum(DiscountType),
+  discount_value: positiveInteger(),
+  max_discount: positiveInteger().nullish(),
+  min_order_total: integer().pipe(z.number().min(0)).default(0),
+  genre_id: uuid().nullish(),
+  book_id: uuid().nullish(),
+  usage_limit: positiveInteger().nullish(),
+  per_user_limit: positiveInteger().nullish(),
+  starts_at: z.coerce.date().nullish(),
+  ends_at: z.coerce.date().nullish(),
+});
+
+export const createCouponSchema = {
+  body: couponBody,
+};
+
+export const getCouponsSchema = {
+  query: z.object({
+    search: z.string().trim().optional(),
+    ...paginationQuery,
+  }),
+};
+
+export const couponIdSchema = {
+  params: couponParams,
+};
+
+export const updateCouponSchema = {
+  params: couponParams,
+  body: couponBody
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided",
+      params: { code: "empty_body" },
+    }),
+};
+
+// Rentang tanggal pemakaian, tanpa from/to = sepanjang waktu
+export const couponReportSchema = {
+  query: z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+};
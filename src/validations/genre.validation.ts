@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { requiredString, uuid } from "./common.validation";
+
+const genreParams = z.object({ genre_id: uuid() });
+
+const genreBody = z.object({
+  name: requiredString(),
+});
+
+export const createGenreSchema = {
+  body: genreBody,
+};
+
+export const genreIdSchema = {
+  params: genreParams,
+};
+
+export const updateGenreSchema = {
+  params: genreParams,
+  body: genreBody,
+};
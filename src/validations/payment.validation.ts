@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { integer, uuid } from "./common.validation";
+
+export const orderPaymentsSchema = {
+  params: z.object({ id: uuid() }),
+};
+
+export const capturePaymentSchema = {
+  params: z.object({ id: uuid(), payment_id: uuid() }),
+};
+
+export const paymentWebhookSchema = {
+  params: z.object({ provider: z.string().trim().min(1) }),
+};
+
+export const simulateMockPaymentSchema = {
+  params: z.object({ provider_ref: z.string().trim().min(1) }),
+  body: z.object({
+    outcome: z.enum(["succeed", "authorize", "fail", "delay"]),
+    // Hanya untuk outcome delay
+    delay_ms: integer().pipe(z.number().min(0).max(10 * 60 * 1000)).default(10000),
+  }),
+};
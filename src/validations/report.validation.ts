@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { integer, periodQuery, periodRefinement, validPeriod, withDefaultPeriod } from "./common.validation";
+
+// Semua report bisa diunduh sebagai CSV lewat ?format=csv
+const format = z.enum(["json", "csv"]).default("json");
+
+const limit = (fallback: number) => integer().pipe(z.number().min(1).max(500)).default(fallback);
+
+export const bestSellersReportSchema = {
+  query: z
+    .object({
+      ...periodQuery,
+      by: z.enum(["units", "revenue"]).default("units"),
+      limit: limit(10),
+      format,
+    })
+    .transform(withDefaultPeriod(30))
+    .refine(validPeriod, periodRefinement),
+};
+
+// Buku yang masih ada stoknya tapi tidak terjual dalam `days` hari terakhir
+export const slowMoversReportSchema = {
+  query: z.object({
+    days: integer().pipe(z.number().min(1).max(3650)).default(30),
+    limit: limit(50),
+    format,
+  }),
+};
+
+export const repeatCustomersReportSchema = {
+  query: z
+    .object({
+      ...periodQuery,
+      format,
+    })
+    .transform(withDefaultPeriod(365))
+    .refine(validPeriod, periodRefinement),
+};
+
+export const customerLifetimeValueReportSchema = {
+  query: z.object({
+    limit: limit(50),
+    format,
+  }),
+};
+
+// from/to = rentang tanggal daftar user (cohort per bulan daftar)
+export const cohortRetentionReportSchema = {
+  query: z
+    .object({
+      ...periodQuery,
+      format,
+    })
+    .transform(withDefaultPeriod(365))
+    .refine(validPeriod, periodRefinement),
+};
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { OrderStatus } from "@prisma/client";
+import { couponCode, cursor, integer, paginationQuery, uuid } from "./common.validation";
+
+const transactionItems = z
+  .array(
+    z.object({
+      book_id: uuid(),
+      quantity: integer().pipe(z.number().min(1)),
+    })
+  )
+  .min(1, { message: "items cannot be empty" })
+  // Buku yang sama dua kali dalam satu order akan lolos cek stok per baris
+  .refine(
+    (items) => new Set(items.map((item) => item.book_id)).size === items.length,
+    { message: "Each book may only appear once in items", params: { code: "duplicate" } }
+  );
+
+export const createTransactionSchema = {
+  body: z.object({
+    items: transactionItems,
+    coupon_code: couponCode().optional(),
+    // Tanpa address_id dipakai alamat default pemilik order (kalau ada)
+    address_id: uuid().optional(),
+  }),
+};
+
+export const createTransactionForUserSchema = {
+  body: z.object({
+    user_id: uuid(),
+    items: transactionItems,
+    coupon_code: couponCode().optional(),
+    address_id: uuid().optional(),
+  }),
+};
+
+export const transactionIdSchema = {
+  params: z.object({ id: uuid() }),
+};
+
+// ?status=paid atau ?status=paid,shipped
+const statusFilter = z.preprocess(
+  (value) => (typeof value === "string" ? value.split(",").map((s) => s.trim()) : value),
+  z.array(z.nativeEnum(OrderStatus)).min(1)
+);
+
+// Filter, urutan & cursor untuk GET /transactions dan /transactions/me.
+// expand=items menyertakan item tiap order, tanpa itu hanya ringkasan.
+export const listTransactionsSchema = {
+  query: z
+    .object({
+      status: statusFilter.optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      user_id: uuid().optional(),
+      book_id: uuid().optional(),
+      genre_id: uuid().optional(),
+      min_total: integer().pipe(z.number().min(0)).optional(),
+      max_total: integer().pipe(z.number().min(0)).optional(),
+      sort: z.enum(["created_at", "total_price"]).default("created_at"),
+      order: z.enum(["asc", "desc"]).default("desc"),
+      expand: z.enum(["items"]).optional(),
+      cursor: cursor().optional(),
+      limit: paginationQuery.limit,
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: "from must not be after to",
+      path: ["to"],
+      params: { code: "invalid_range" },
+    })
+    .refine(
+      (query) => query.min_total === undefined || query.max_total === undefined || query.min_total <= query.max_total,
+      {
+        message: "min_total must not exceed max_total",
+        path: ["max_total"],
+        params: { code: "invalid_range" },
+      }
+    ),
+};
+
+// Format invoice: ?format=html (default) atau ?format=pdf
+export const transactionInvoiceSchema = {
+  params: z.object({ id: uuid() }),
+  query: z.object({
+    format: z.enum(["html", "pdf"]).default("html"),
+  }),
+};
+
+export type ListTransactionsQuery = z.infer<typeof listTransactionsSchema.query>;
+
+export const updateTransactionStatusSchema = {
+  params: z.object({ id: uuid() }),
+  body: z.object({
+    status: z.nativeEnum(OrderStatus),
+    note: z.string().trim().max(500).optional(),
+  }),
+};
+
+export const cancelTransactionSchema = {
+  params: z.object({ id: uuid() }),
+  body: z.object({
+    reason: z.string().trim().max(500).optional(),
+  }),
+};
+
+// Tanpa items = refund penuh untuk semua item yang belum di-refund
+export const createRefundSchema = {
+  params: z.object({ id: uuid() }),
+  body: z.object({
+    items: z
+      .array(
+        z.object({
+          order_item_id: uuid(),
+          quantity: integer().pipe(z.number().min(1)),
+        })
+      )
+      .min(1)
+      .refine(
+        (items) => new Set(items.map((item) => item.order_item_id)).size === items.length,
+        { message: "Each order item may only appear once", params: { code: "duplicate" } }
+      )
+      .optional(),
+    reason: z.string().trim().max(500).optional(),
+  }),
+};
+
+const shipmentBody = z.object({
+  carrier: z.string().trim().min(1).max(50),
+  tracking_number: z.string().trim().min(1).max(100).nullish(),
+  shipped_at: z.coerce.date().nullish(),
+  delivered_at: z.coerce.date().nullish(),
+  note: z.string().trim().max(500).nullish(),
+});
+
+export const createShipmentSchema = {
+  params: z.object({ id: uuid() }),
+  body: shipmentBody,
+};
+
+export const updateShipmentSchema = {
+  params: z.object({ id: uuid(), shipment_id: uuid() }),
+  body: shipmentBody
+    .partial()
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided",
+      params: { code: "empty_body" },
+    }),
+};
+
+export type TransactionItem = z.infer<typeof transactionItems>[number];
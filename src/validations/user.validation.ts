@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { Role } from "@prisma/client";
+import { paginationQuery, uuid } from "./common.validation";
+
+export const getUsersSchema = {
+  query: z.object({
+    search: z.string().trim().optional(),
+    role: z.nativeEnum(Role).optional(),
+    ...paginationQuery,
+  }),
+};
+
+export const userIdSchema = {
+  params: z.object({ id: uuid() }),
+};
+
+export const updateUserRoleSchema = {
+  params: z.object({ id: uuid() }),
+  body: z.object({
+    role: z.nativeEnum(Role),
+  }),
+};
@@ -0,0 +1,72 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Coupon } from "@prisma/client";
+import { calculateDiscount, CouponLine, normalizeCouponCode } from "../src/services/coupon.service";
+
+const coupon = (overrides: Partial<Coupon>): Coupon => ({
+  id: "coupon-1",
+  code: "HEMAT",
+  description: null,
+  discount_type: "percentage",
+  discount_value: 10,
+  max_discount: null,
+  min_order_total: 0,
+  genre_id: null,
+  book_id: null,
+  usage_limit: null,
+  per_user_limit: null,
+  redemption_count: 0,
+  starts_at: null,
+  ends_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  deleted_at: null,
+  ...overrides,
+});
+
+const lines: CouponLine[] = [
+  { book_id: "book-1", genre_id: "genre-fiksi", amount: 85000 },
+  { book_id: "book-2", genre_id: "genre-sains", amount: 49999 },
+];
+
+describe("calculateDiscount", () => {
+  test("percentage dibulatkan ke bawah", () => {
+    // 10% dari 134999 = 13499.9
+    assert.equal(calculateDiscount(coupon({}), lines), 13499);
+  });
+
+  test("percentage dibatasi max_discount", () => {
+    assert.equal(calculateDiscount(coupon({ discount_value: 50, max_discount: 25000 }), lines), 25000);
+    assert.equal(calculateDiscount(coupon({ discount_value: 5, max_discount: 25000 }), lines), 6749);
+  });
+
+  test("fixed memotong nominal penuh", () => {
+    const fixed = coupon({ discount_type: "fixed", discount_value: 20000 });
+
+    assert.equal(calculateDiscount(fixed, lines), 20000);
+  });
+
+  test("fixed tidak pernah melebihi subtotal item yang memenuhi syarat", () => {
+    const fixed = coupon({ discount_type: "fixed", discount_value: 60000, genre_id: "genre-sains" });
+
+    assert.equal(calculateDiscount(fixed, lines), 49999);
+  });
+
+  test("max_discount tidak berlaku untuk kupon fixed", () => {
+    const fixed = coupon({ discount_type: "fixed", discount_value: 30000, max_discount: 10000 });
+
+    assert.equal(calculateDiscount(fixed, lines), 30000);
+  });
+
+  test("kupon buku/genre hanya menghitung item yang cocok", () => {
+    assert.equal(calculateDiscount(coupon({ book_id: "book-1" }), lines), 8500);
+    assert.equal(calculateDiscount(coupon({ genre_id: "genre-sains" }), lines), 4999);
+    assert.equal(calculateDiscount(coupon({ genre_id: "genre-lain" }), lines), 0);
+  });
+});
+
+describe("normalizeCouponCode", () => {
+  test("kode tidak case-sensitive dan tanpa spasi di ujung", () => {
+    assert.equal(normalizeCouponCode("  hemat10 "), "HEMAT10");
+  });
+});
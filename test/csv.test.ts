@@ -0,0 +1,58 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { CsvColumn, toCsv } from "../src/reports/csv";
+
+interface Row {
+  title: string | null;
+  total: number;
+  paid_at?: Date;
+}
+
+const columns: CsvColumn<Row>[] = [
+  { header: "title", value: (row) => row.title },
+  { header: "total", value: (row) => row.total },
+  { header: "paid_at", value: (row) => row.paid_at },
+];
+
+// Nilai satu kolom teks sebagai CSV (tanpa baris header)
+const titleCell = (title: string): string =>
+  toCsv([columns[0]], [{ title, total: 0 }]).slice("title\r\n".length, -"\r\n".length);
+
+describe("toCsv", () => {
+  test("header, baris dan akhir baris CRLF", () => {
+    const csv = toCsv(columns, [
+      { title: "Laskar Pelangi", total: 150000, paid_at: new Date("2026-01-31T17:00:00.000Z") },
+      { title: null, total: 0 },
+    ]);
+
+    assert.equal(
+      csv,
+      "title,total,paid_at\r\nLaskar Pelangi,150000,2026-01-31T17:00:00.000Z\r\n,0,\r\n"
+    );
+  });
+
+  test("tanpa baris data hanya berisi header", () => {
+    assert.equal(toCsv(columns, []), "title,total,paid_at\r\n");
+  });
+
+  test("koma, kutip dan baris baru diapit kutip ganda", () => {
+    assert.equal(titleCell("Bumi, Manusia"), '"Bumi, Manusia"');
+    assert.equal(titleCell('Buku "Terlaris"'), '"Buku ""Terlaris"""');
+    assert.equal(titleCell("Baris 1\nBaris 2"), '"Baris 1\nBaris 2"');
+    assert.equal(titleCell("Baris 1\r\nBaris 2"), '"Baris 1\r\nBaris 2"');
+  });
+
+  test("teks yang diawali karakter formula diberi awalan kutip tunggal", () => {
+    assert.equal(titleCell("=HYPERLINK(\"http://evil\")"), '"\'=HYPERLINK(""http://evil"")"');
+    assert.equal(titleCell("+62812"), "'+62812");
+    assert.equal(titleCell("-1+1"), "'-1+1");
+    assert.equal(titleCell("@SUM(A1:A2)"), "'@SUM(A1:A2)");
+    assert.equal(titleCell("\t=1+1"), "'\t=1+1");
+    assert.equal(titleCell("=1+1,2"), "\"'=1+1,2\"");
+  });
+
+  test("karakter formula di tengah teks dan angka negatif tidak diubah", () => {
+    assert.equal(titleCell("Harga = 50000"), "Harga = 50000");
+    assert.equal(toCsv([columns[1]], [{ title: null, total: -5000 }]), "total\r\n-5000\r\n");
+  });
+});
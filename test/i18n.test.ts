@@ -0,0 +1,73 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { DEFAULT_LOCALE, parseAcceptLanguage, resolveLocale, t } from "../src/i18n";
+
+const request = (acceptLanguage?: string, locale?: "id" | "en"): Request =>
+  ({
+    user: locale ? { locale } : undefined,
+    get: (name: string) => (name.toLowerCase() === "accept-language" ? acceptLanguage : undefined),
+  }) as unknown as Request;
+
+describe("parseAcceptLanguage", () => {
+  test("bahasa dengan q tertinggi yang didukung dipilih", () => {
+    assert.equal(parseAcceptLanguage("en-US,en;q=0.9,id;q=0.8"), "en");
+    assert.equal(parseAcceptLanguage("en;q=0.5, id;q=0.9"), "id");
+    assert.equal(parseAcceptLanguage("fr-FR,fr;q=0.9,en;q=0.4,id;q=0.3"), "en");
+  });
+
+  test("region dan huruf besar diabaikan", () => {
+    assert.equal(parseAcceptLanguage("ID-id"), "id");
+  });
+
+  test("q=0 dan q yang tidak valid dilewati", () => {
+    assert.equal(parseAcceptLanguage("en;q=0,id;q=0.1"), "id");
+    assert.equal(parseAcceptLanguage("en;q=abc,id;q=0.2"), "id");
+  });
+
+  test("null kalau tidak ada bahasa yang didukung", () => {
+    assert.equal(parseAcceptLanguage(undefined), null);
+    assert.equal(parseAcceptLanguage(""), null);
+    assert.equal(parseAcceptLanguage("fr,de;q=0.8"), null);
+    assert.equal(parseAcceptLanguage("*"), null);
+  });
+});
+
+describe("resolveLocale", () => {
+  test("preferensi user didahulukan dari Accept-Language", () => {
+    assert.equal(resolveLocale(request("id", "en")), "en");
+  });
+
+  test("Accept-Language dipakai kalau user tidak punya preferensi", () => {
+    assert.equal(resolveLocale(request("en-GB,id;q=0.5")), "en");
+  });
+
+  test("DEFAULT_LOCALE kalau Accept-Language tidak cocok", () => {
+    assert.equal(resolveLocale(request("fr")), DEFAULT_LOCALE);
+    assert.equal(resolveLocale(request()), DEFAULT_LOCALE);
+  });
+});
+
+describe("t", () => {
+  test("pesan diterjemahkan sesuai locale", () => {
+    assert.equal(t("error.not_found", "en"), "Not Found");
+    assert.equal(t("error.not_found", "id"), "Tidak ditemukan");
+  });
+
+  test("placeholder diisi dari params", () => {
+    const message = {
+      key: "stock.insufficient" as const,
+      params: { title: "Laskar Pelangi", available: 2, requested: 5 },
+    };
+
+    assert.equal(t(message, "en"), 'Insufficient stock for "Laskar Pelangi": 2 left, 5 requested');
+    assert.equal(t(message, "id"), 'Stok "Laskar Pelangi" tidak mencukupi: tersisa 2, diminta 5');
+  });
+
+  test("placeholder tanpa nilai dibiarkan apa adanya", () => {
+    assert.equal(
+      t({ key: "stock.insufficient", params: { title: "Laskar Pelangi" } }, "en"),
+      'Insufficient stock for "Laskar Pelangi": {available} left, {requested} requested'
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryLoginAttemptStore, setLoginAttemptStore } from "../src/auth/login-attempt.store";
+import {
+  emailKey,
+  ipKey,
+  listLoginAttempts,
+  recordLoginSuccess,
+  reserveLoginAttempt,
+} from "../src/auth/login-throttle.service";
+
+// Nilai default: backoff mulai 1 detik setelah 2 kali gagal, lockout 15 menit setelah 5 kali
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const EMAIL = emailKey(" Budi@Example.com ");
+const IP = ipKey("203.0.113.7");
+
+const failuresOf = async (key: string): Promise<number> =>
+  (await listLoginAttempts()).find((record) => record.key === key)?.failures ?? 0;
+
+// Percobaan ke-1 s.d. ke-5, menunggu backoff di antaranya
+const failFiveTimes = async (keys: string[]) => {
+  for (const wait of [0, 0, 1, 2, 4]) {
+    mock.timers.tick(wait * SECOND);
+    assert.equal(await reserveLoginAttempt(keys), 0);
+  }
+};
+
+describe("login throttle", () => {
+  beforeEach(() => {
+    setLoginAttemptStore(new MemoryLoginAttemptStore());
+    mock.timers.enable({ apis: ["Date"], now: new Date("2026-03-01T08:00:00.000Z") });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test("key email tidak case-sensitive", () => {
+    assert.equal(EMAIL, "email:budi@example.com");
+  });
+
+  test("backoff eksponensial setelah 2 kali gagal", async () => {
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 1);
+
+    mock.timers.tick(SECOND);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+    // 3 kali gagal: tunggu 2 detik
+    mock.timers.tick(SECOND);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 1);
+    mock.timers.tick(SECOND);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+  });
+
+  test("percobaan yang ditolak tidak menambah counter", async () => {
+    await reserveLoginAttempt([EMAIL, IP]);
+    await reserveLoginAttempt([EMAIL, IP]);
+
+    assert.equal(await reserveLoginAttempt([EMAIL, IP]), 1);
+    assert.equal(await failuresOf(EMAIL), 2);
+    assert.equal(await failuresOf(IP), 2);
+  });
+
+  test("key lain yang ikut dicek tidak ikut tercatat saat ditolak", async () => {
+    await reserveLoginAttempt([EMAIL]);
+    await reserveLoginAttempt([EMAIL]);
+
+    assert.equal(await reserveLoginAttempt([EMAIL, IP]), 1);
+    assert.equal(await failuresOf(IP), 0);
+  });
+
+  test("lockout 15 menit setelah 5 kali gagal", async () => {
+    await failFiveTimes([EMAIL]);
+
+    assert.equal(await reserveLoginAttempt([EMAIL]), 15 * 60);
+
+    mock.timers.tick(15 * MINUTE - SECOND);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 1);
+
+    // Setelah lockout habis counter mulai dari awal
+    mock.timers.tick(SECOND);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+    assert.equal(await failuresOf(EMAIL), 1);
+  });
+
+  test("counter di-reset kalau tidak ada kegagalan selama window", async () => {
+    await reserveLoginAttempt([EMAIL]);
+    await reserveLoginAttempt([EMAIL]);
+
+    mock.timers.tick(15 * MINUTE + SECOND);
+    assert.equal(await failuresOf(EMAIL), 0);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+    assert.equal(await failuresOf(EMAIL), 1);
+  });
+
+  test("percobaan paralel tidak bisa sama-sama lolos", async () => {
+    const waits = await Promise.all(
+      Array.from({ length: 10 }, () => reserveLoginAttempt([EMAIL, IP]))
+    );
+
+    assert.equal(waits.filter((wait) => wait === 0).length, 2);
+    assert.equal(await failuresOf(EMAIL), 2);
+    assert.equal(await failuresOf(IP), 2);
+  });
+
+  test("login berhasil me-reset counter email dan mengurangi counter IP", async () => {
+    const other = emailKey("siti@example.com");
+    await reserveLoginAttempt([other, IP]);
+    mock.timers.tick(SECOND);
+    await reserveLoginAttempt([EMAIL, IP]);
+
+    await recordLoginSuccess(EMAIL, IP);
+
+    assert.equal(await failuresOf(EMAIL), 0);
+    assert.equal(await failuresOf(IP), 1);
+    assert.equal(await failuresOf(other), 1);
+  });
+
+  test("login berhasil membuka lockout email", async () => {
+    await failFiveTimes([EMAIL]);
+
+    await recordLoginSuccess(EMAIL, IP);
+    assert.equal(await reserveLoginAttempt([EMAIL]), 0);
+  });
+});
@@ -0,0 +1,100 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { pricingConfig } from "../src/config/pricing";
+import { PricingLine, priceOrder } from "../src/services/pricing.service";
+
+// Konfigurasi dasar tiap test, tidak bergantung pada env mesin yang menjalankan test
+const resetConfig = () => {
+  Object.assign(pricingConfig.tax, { rate: 11, mode: "per_order", inclusive: false });
+  Object.assign(pricingConfig.shipping, {
+    mode: "item_count",
+    base_fee: 10000,
+    per_item_fee: 0,
+    weight_zones: [
+      { max_grams: 1000, fee: 10000 },
+      { max_grams: 3000, fee: 18000 },
+      { max_grams: 5000, fee: 25000 },
+    ],
+    per_extra_kg_fee: 5000,
+    free_threshold: 0,
+  });
+};
+
+const line = (amount: number, quantity = 1, weight_grams = 500): PricingLine => ({
+  amount,
+  quantity,
+  weight_grams,
+});
+
+describe("priceOrder", () => {
+  beforeEach(resetConfig);
+
+  test("pajak exclusive ditambahkan ke total dan dibulatkan ke rupiah terdekat", () => {
+    const price = priceOrder([line(45500), line(33333, 2)], 0);
+
+    assert.deepEqual(price, {
+      subtotal: 78833,
+      discount: 0,
+      tax_rate: 11,
+      tax_inclusive: false,
+      tax_amount: 8672,
+      shipping_fee: 10000,
+      total_price: 97505,
+    });
+  });
+
+  test("pajak dihitung dari nilai setelah diskon", () => {
+    const price = priceOrder([line(100000)], 20000);
+
+    assert.equal(price.tax_amount, 8800);
+    assert.equal(price.total_price, 100000 - 20000 + 8800 + 10000);
+  });
+
+  test("per_item membulatkan pajak tiap baris, per_order sekali dari total", () => {
+    const lines = [line(10005), line(10005)];
+
+    assert.equal(priceOrder(lines, 0).tax_amount, 2201);
+
+    pricingConfig.tax.mode = "per_item";
+    assert.equal(priceOrder(lines, 0).tax_amount, 2202);
+  });
+
+  test("per_item: sisa pembulatan diskon masuk ke baris terakhir", () => {
+    pricingConfig.tax.mode = "per_item";
+
+    // Diskon 1 habis di baris terakhir: pajak 1101 + 1100
+    assert.equal(priceOrder([line(10005), line(10005)], 1).tax_amount, 2201);
+  });
+
+  test("pajak inclusive tidak menambah total", () => {
+    pricingConfig.tax.inclusive = true;
+
+    const round = priceOrder([line(111000)], 0);
+    assert.equal(round.tax_amount, 11000);
+    assert.equal(round.total_price, 111000 + 10000);
+
+    assert.equal(priceOrder([line(10000)], 0).tax_amount, 991);
+  });
+
+  test("ongkos kirim item_count dihitung dari jumlah buku", () => {
+    pricingConfig.shipping.per_item_fee = 2000;
+
+    assert.equal(priceOrder([line(50000, 2), line(30000, 3)], 0).shipping_fee, 10000 + 5 * 2000);
+  });
+
+  test("ongkos kirim weight memakai zona, kelebihan berat dibulatkan ke atas per kg", () => {
+    pricingConfig.shipping.mode = "weight";
+
+    assert.equal(priceOrder([line(50000, 2, 500)], 0).shipping_fee, 10000);
+    assert.equal(priceOrder([line(50000, 4, 500)], 0).shipping_fee, 18000);
+    // 6200 gram: zona terakhir + 2 kg tambahan
+    assert.equal(priceOrder([line(50000, 2, 3100)], 0).shipping_fee, 25000 + 2 * 5000);
+  });
+
+  test("gratis ongkir dihitung dari total belanja setelah diskon", () => {
+    pricingConfig.shipping.free_threshold = 100000;
+
+    assert.equal(priceOrder([line(100500)], 1000).shipping_fee, 10000);
+    assert.equal(priceOrder([line(100500)], 500).shipping_fee, 0);
+  });
+});
@@ -0,0 +1,104 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { PrismaClient } from "@prisma/client";
+
+// Test ini butuh database Postgres terpisah yang skemanya sudah di-push:
+//   TEST_DATABASE_URL=postgresql://... npm test
+// Di lokal, tanpa TEST_DATABASE_URL test dilewati supaya tidak pernah menyentuh
+// database utama. Di CI (workflow test.yml menyediakan Postgres) tidak boleh
+// dilewati diam-diam.
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+if (TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = TEST_DATABASE_URL;
+} else if (process.env.GITHUB_ACTIONS === "true") {
+  throw new Error("TEST_DATABASE_URL is required in CI for the stock concurrency test");
+}
+
+const STOCK = 5;
+const BUYERS = 20;
+
+describe("checkout bersamaan untuk satu buku", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL belum diset" }, () => {
+  let prisma: PrismaClient;
+  let createOrder: typeof import("../src/services/order.service").createOrder;
+  let OutOfStockError: typeof import("../src/utils/errors").OutOfStockError;
+
+  const suffix = crypto.randomBytes(4).toString("hex");
+  const userIds: string[] = [];
+  let genreId: string;
+  let bookId: string;
+
+  before(async () => {
+    // Di-import setelah DATABASE_URL diarahkan ke database test
+    prisma = (await import("../src/config/database")).default;
+    ({ createOrder } = await import("../src/services/order.service"));
+    ({ OutOfStockError } = await import("../src/utils/errors"));
+
+    const genre = await prisma.genre.create({ data: { name: `test-genre-${suffix}` } });
+    genreId = genre.id;
+
+    const book = await prisma.book.create({
+      data: {
+        title: `test-book-${suffix}`,
+        writer: "Tester",
+        publisher: "Tester",
+        price: 10000,
+        stock_quantity: STOCK,
+        genre_id: genre.id,
+      },
+    });
+    bookId = book.id;
+
+    for (let i = 0; i < BUYERS; i++) {
+      const user = await prisma.user.create({
+        data: { email: `buyer-${i}-${suffix}@test.local`, password: "x" },
+      });
+      userIds.push(user.id);
+    }
+  });
+
+  after(async () => {
+    if (!prisma) return;
+
+    await prisma.orderItem.deleteMany({ where: { order: { user_id: { in: userIds } } } });
+    await prisma.order.deleteMany({ where: { user_id: { in: userIds } } });
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    if (bookId) await prisma.book.delete({ where: { id: bookId } });
+    if (genreId) await prisma.genre.delete({ where: { id: genreId } });
+    await prisma.$disconnect();
+  });
+
+  test("stok tidak pernah negatif dan order yang lolos sama dengan stok", async () => {
+    const results = await Promise.allSettled(
+      userIds.map((owner_id) =>
+        prisma.$transaction(
+          (tx) =>
+            createOrder(tx, {
+              owner_id,
+              actor_id: owner_id,
+              items: [{ book_id: bookId, quantity: 1 }],
+            }),
+          { maxWait: 30_000, timeout: 30_000 }
+        )
+      )
+    );
+
+    const created = results.filter((result) => result.status === "fulfilled");
+    const rejected = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+
+    // Semua yang gagal harus karena stok habis, bukan error lain
+    for (const reason of rejected) {
+      assert.ok(reason instanceof OutOfStockError, `unexpected error: ${reason}`);
+    }
+
+    const book = await prisma.book.findUniqueOrThrow({ where: { id: bookId } });
+    const orderedQuantity = await prisma.orderItem.aggregate({
+      where: { book_id: bookId },
+      _sum: { quantity: true },
+    });
+
+    assert.equal(created.length, STOCK);
+    assert.equal(book.stock_quantity, 0);
+    assert.equal(orderedQuantity._sum.quantity, STOCK);
+  });
+});
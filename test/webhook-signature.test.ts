@@ -0,0 +1,61 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { signWebhook, verifyWebhookSignature } from "../src/payments/signature";
+
+const SECRET = "whsec_test_0123456789abcdef";
+const NOW = 1_760_000_000;
+const body = JSON.stringify({ provider_ref: "mock_pi_1", status: "succeeded" });
+
+describe("verifyWebhookSignature", () => {
+  test("signature yang valid diterima", () => {
+    const header = signWebhook(SECRET, body, NOW);
+
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(body), NOW), true);
+  });
+
+  test("body yang diubah ditolak", () => {
+    const header = signWebhook(SECRET, body, NOW);
+    const tampered = body.replace("succeeded", "failed");
+
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(tampered), NOW), false);
+  });
+
+  test("signature yang diubah ditolak", () => {
+    const header = signWebhook(SECRET, body, NOW);
+    const last = header.slice(-1);
+    const tampered = header.slice(0, -1) + (last === "0" ? "1" : "0");
+
+    assert.equal(verifyWebhookSignature(SECRET, tampered, Buffer.from(body), NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, `${header}00`, Buffer.from(body), NOW), false);
+  });
+
+  test("timestamp yang diubah ditolak", () => {
+    const header = signWebhook(SECRET, body, NOW).replace(`t=${NOW}`, `t=${NOW + 1}`);
+
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(body), NOW), false);
+  });
+
+  test("secret yang berbeda ditolak", () => {
+    const header = signWebhook("whsec_other_0123456789abcdef", body, NOW);
+
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(body), NOW), false);
+  });
+
+  test("timestamp di luar toleransi ditolak", () => {
+    const header = signWebhook(SECRET, body, NOW);
+
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(body), NOW + 300), true);
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(body), NOW + 301), false);
+    assert.equal(verifyWebhookSignature(SECRET, header, Buffer.from(body), NOW - 301), false);
+  });
+
+  test("header kosong atau tidak lengkap ditolak", () => {
+    const signature = signWebhook(SECRET, body, NOW).split(",")[1];
+
+    assert.equal(verifyWebhookSignature(SECRET, undefined, Buffer.from(body), NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, "", Buffer.from(body), NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, signature, Buffer.from(body), NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, `t=${NOW}`, Buffer.from(body), NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, `t=abc,${signature}`, Buffer.from(body), NOW), false);
+  });
+});